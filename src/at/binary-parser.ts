@@ -0,0 +1,43 @@
+import { Transform, TransformCallback } from 'stream'
+
+/**
+ * Frames the binary data written by AT+SBDWB. The input is emitted
+ * as soon as the declared number of bytes (the message and its
+ * checksum) has been received, so the write does not depend on the
+ * timing of the input.
+ */
+export class BinaryMessageParser extends Transform {
+  /** Number of bytes in the message, including the checksum */
+  #length: number
+
+  /** Input received since the start of the message */
+  #buffer = Buffer.alloc(0)
+
+  get buffer () {
+    return this.#buffer
+  }
+
+  constructor ({ length }: { length: number }) {
+    super()
+
+    this.#length = length
+  }
+
+  _transform (chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.#buffer = Buffer.concat([this.#buffer, chunk])
+
+    // a message followed by extra bytes is emitted whole, so the
+    // excess can be reported
+    if (this.#buffer.length >= this.#length) {
+      this.push(this.#buffer)
+      this.#buffer = Buffer.alloc(0)
+    }
+
+    callback()
+  }
+
+  _flush (callback: TransformCallback) {
+    this.#buffer = Buffer.alloc(0)
+    callback()
+  }
+}
@@ -0,0 +1,5 @@
+export * from './binary-parser'
+export * from './line-parser'
+export * from './parser'
+export * from './registers'
+export * from './registry'
@@ -0,0 +1,42 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { CommandLineParser } from './line-parser'
+
+/** Writes each chunk to a new parser, returning the command lines emitted */
+function parse (chunks: string[], delimiter = '\r\n') {
+  const parser = new CommandLineParser({ delimiter })
+  const lines: string[] = []
+
+  parser.on('data', (line: string) => lines.push(line))
+  chunks.forEach((chunk) => parser.write(chunk))
+
+  return lines
+}
+
+describe('CommandLineParser', () => {
+  it('splits the input into command lines', () => {
+    assert.deepStrictEqual(parse(['AT+CSQ\r\nATE0\r\n']), ['AT+CSQ', 'ATE0'])
+  })
+
+  it('assembles command lines received in pieces', () => {
+    assert.deepStrictEqual(parse(['AT+', 'CSQ\r', '\nAT', '\r\n']), ['AT+CSQ', 'AT'])
+  })
+
+  it('ignores empty command lines', () => {
+    assert.deepStrictEqual(parse(['\r\n\r\nAT\r\n']), ['AT'])
+  })
+
+  it('emits A/ without waiting for a line terminator', () => {
+    assert.deepStrictEqual(parse(['A/']), ['A/'])
+    assert.deepStrictEqual(parse(['a', '/']), ['a/'])
+  })
+
+  it('does not merge A/ into the following command line', () => {
+    assert.deepStrictEqual(parse(['A/', 'AT+SBDWT=hi;there\r\n']), ['A/', 'AT+SBDWT=hi;there'])
+  })
+
+  it('ignores a line terminator sent after A/', () => {
+    assert.deepStrictEqual(parse(['A/\r\nAT\r\n']), ['A/', 'AT'])
+  })
+})
@@ -0,0 +1,54 @@
+import { Transform, TransformCallback } from 'stream'
+
+/**
+ * Splits the input from the DTE into command lines. `A/` is emitted
+ * as soon as it has been received, without waiting for a line
+ * terminator, as the ISU executes it immediately.
+ */
+export class CommandLineParser extends Transform {
+  /** The character sequence terminating a command line */
+  #delimiter: Buffer
+
+  get delimiter () {
+    return this.#delimiter.toString()
+  }
+
+  /** Input received since the last complete command line */
+  #buffer = Buffer.alloc(0)
+
+  constructor ({ delimiter }: { delimiter: string | Buffer }) {
+    super({ readableObjectMode: true })
+
+    this.#delimiter = Buffer.from(delimiter)
+  }
+
+  _transform (chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.#buffer = Buffer.concat([this.#buffer, chunk])
+
+    for (;;) {
+      const repeat = this.#buffer.toString().match(/^\s*a\//i)
+
+      if (repeat) {
+        this.push(repeat[0])
+        this.#buffer = this.#buffer.subarray(Buffer.byteLength(repeat[0]))
+        continue
+      }
+
+      const index = this.#buffer.indexOf(this.#delimiter)
+      if (index === -1) break
+
+      const command = this.#buffer.subarray(0, index).toString()
+      this.#buffer = this.#buffer.subarray(index + this.#delimiter.length)
+
+      // empty command lines are ignored
+      if (command !== '') this.push(command)
+    }
+
+    callback()
+  }
+
+  _flush (callback: TransformCallback) {
+    this.#buffer = Buffer.alloc(0)
+    callback()
+  }
+}
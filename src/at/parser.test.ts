@@ -0,0 +1,129 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { applyBackspace, isRepeatCommand, parseCommandLine } from './parser'
+
+describe('parseCommandLine', () => {
+  it('parses an empty command line', () => {
+    assert.deepStrictEqual(parseCommandLine('AT'), [])
+  })
+
+  it('returns null without an AT prefix', () => {
+    assert.strictEqual(parseCommandLine('+CSQ'), null)
+    assert.strictEqual(parseCommandLine(''), null)
+  })
+
+  it('ignores characters before the prefix and the case of commands', () => {
+    assert.deepStrictEqual(parseCommandLine('xx at+csq'), [{ name: '+CSQ', type: 'action', value: '' }])
+    assert.deepStrictEqual(parseCommandLine('aT+cSqF'), [{ name: '+CSQF', type: 'action', value: '' }])
+  })
+
+  it('parses concatenated basic commands', () => {
+    assert.deepStrictEqual(parseCommandLine('ATE0Q0V1'), [
+      { name: 'E', type: 'action', value: '0' },
+      { name: 'Q', type: 'action', value: '0' },
+      { name: 'V', type: 'action', value: '1' }
+    ])
+  })
+
+  it('parses basic commands without a value', () => {
+    assert.deepStrictEqual(parseCommandLine('ATE'), [{ name: 'E', type: 'action', value: '' }])
+  })
+
+  it('parses two character basic commands', () => {
+    assert.deepStrictEqual(parseCommandLine('AT&K3*R1%R&V'), [
+      { name: '&K', type: 'action', value: '3' },
+      { name: '*R', type: 'action', value: '1' },
+      { name: '%R', type: 'action', value: '' },
+      { name: '&V', type: 'action', value: '' }
+    ])
+  })
+
+  it('parses the read form of basic commands', () => {
+    assert.deepStrictEqual(parseCommandLine('ATE?'), [{ name: 'E', type: 'read', value: '' }])
+  })
+
+  it('parses the action, read, test and set forms of extended commands', () => {
+    assert.deepStrictEqual(parseCommandLine('AT+SBDIX'), [{ name: '+SBDIX', type: 'action', value: '' }])
+    assert.deepStrictEqual(parseCommandLine('AT+SBDMTA?'), [{ name: '+SBDMTA', type: 'read', value: '' }])
+    assert.deepStrictEqual(parseCommandLine('AT+SBDWB=?'), [{ name: '+SBDWB', type: 'test', value: '' }])
+    assert.deepStrictEqual(parseCommandLine('AT+CIER=1,1,0,0'), [{ name: '+CIER', type: 'set', value: '1,1,0,0' }])
+  })
+
+  it('parses extended commands with a - prefix', () => {
+    assert.deepStrictEqual(parseCommandLine('AT-MSSTM'), [{ name: '-MSSTM', type: 'action', value: '' }])
+  })
+
+  it('separates extended commands with ;', () => {
+    assert.deepStrictEqual(parseCommandLine('AT+SBDD0;+SBDMTA=1;+CSQF'), [
+      { name: '+SBDD0', type: 'action', value: '' },
+      { name: '+SBDMTA', type: 'set', value: '1' },
+      { name: '+CSQF', type: 'action', value: '' }
+    ])
+  })
+
+  it('follows basic commands with extended commands', () => {
+    assert.deepStrictEqual(parseCommandLine('ATE0+CSQ'), [
+      { name: 'E', type: 'action', value: '0' },
+      { name: '+CSQ', type: 'action', value: '' }
+    ])
+  })
+
+  it('keeps ; inside string constants', () => {
+    assert.deepStrictEqual(parseCommandLine('AT+X="a;b";+CSQ'), [
+      { name: '+X', type: 'set', value: '"a;b"' },
+      { name: '+CSQ', type: 'action', value: '' }
+    ])
+  })
+
+  it('extends the arguments of raw argument commands to the end of the line', () => {
+    assert.deepStrictEqual(parseCommandLine('AT+SBDWT=hello;world', { rawArguments: ['+SBDWT'] }), [
+      { name: '+SBDWT', type: 'set', value: 'hello;world' }
+    ])
+    assert.deepStrictEqual(parseCommandLine('AT+SBDWT= padded ', { rawArguments: ['+SBDWT'] }), [
+      { name: '+SBDWT', type: 'set', value: ' padded ' }
+    ])
+  })
+
+  it('parses S-register commands', () => {
+    assert.deepStrictEqual(parseCommandLine('ATS3?'), [{ name: 'S', type: 'read', value: '', register: 3 }])
+    assert.deepStrictEqual(parseCommandLine('ATS5=127'), [{ name: 'S', type: 'set', value: '127', register: 5 }])
+    assert.deepStrictEqual(parseCommandLine('ATS4=?'), [{ name: 'S', type: 'test', value: '', register: 4 }])
+    assert.deepStrictEqual(parseCommandLine('ATS12'), [{ name: 'S', type: 'action', value: '', register: 12 }])
+  })
+
+  it('parses S-register commands among basic commands', () => {
+    assert.deepStrictEqual(parseCommandLine('ATE0S5=20V0'), [
+      { name: 'E', type: 'action', value: '0' },
+      { name: 'S', type: 'set', value: '20', register: 5 },
+      { name: 'V', type: 'action', value: '0' }
+    ])
+  })
+
+  it('returns null for malformed command lines', () => {
+    assert.strictEqual(parseCommandLine('ATS?'), null)
+    assert.strictEqual(parseCommandLine('AT+'), null)
+    assert.strictEqual(parseCommandLine('AT&'), null)
+    assert.strictEqual(parseCommandLine('AT#'), null)
+  })
+})
+
+describe('applyBackspace', () => {
+  it('removes the character before each backspace', () => {
+    assert.strictEqual(applyBackspace('AT+CGM\bMM'), 'AT+CGMM')
+    assert.strictEqual(applyBackspace('\bAT'), 'AT')
+  })
+
+  it('uses the given backspace character', () => {
+    assert.strictEqual(applyBackspace('ATX\x7f', 0x7f), 'AT')
+  })
+})
+
+describe('isRepeatCommand', () => {
+  it('matches A/ in either case', () => {
+    assert.ok(isRepeatCommand('A/'))
+    assert.ok(isRepeatCommand('a/'))
+    assert.ok(isRepeatCommand(' A/'))
+    assert.ok(!isRepeatCommand('AT'))
+  })
+})
@@ -0,0 +1,156 @@
+/** The form in which a command was given */
+export type AtCommandType = 'action' | 'read' | 'test' | 'set'
+
+export type AtCommand = {
+  /**
+   * Uppercase name of the command, eg. `E`, `&K`, `*R` and `S` for
+   * basic commands or `+CSQ` and `-MSSTM` for extended commands
+   */
+  name: string
+  type: AtCommandType
+  /** The parameter of basic commands, or the arguments of set commands */
+  value: string
+  /** The register number of S-register commands */
+  register?: number
+}
+
+/** Characters that prefix two character basic commands */
+const BASIC_PREFIXES = ['&', '*', '%', '\\']
+
+/**
+ * Applies backspace editing to a command line, removing the
+ * character preceding each backspace character.
+ */
+export function applyBackspace (line: string, backspace = 8) {
+  const characters: string[] = []
+
+  for (const character of line) {
+    if (character.charCodeAt(0) === backspace) {
+      characters.pop()
+    } else {
+      characters.push(character)
+    }
+  }
+
+  return characters.join('')
+}
+
+/**
+ * Indicates if the command line is the `A/` repeat last command line
+ * command.
+ */
+export function isRepeatCommand (line: string) {
+  return /^\s*a\//i.test(line)
+}
+
+/**
+ * Parses a command line into its commands following the V.25ter
+ * rules. Characters before the `AT` prefix are ignored, basic
+ * commands may be concatenated and extended commands are separated
+ * by `;`. The arguments of the `rawArguments` extended commands
+ * extend to the end of the line. Returns null if the line has no
+ * `AT` prefix or is malformed.
+ */
+export function parseCommandLine (line: string, { rawArguments = [] }: { rawArguments?: string[] } = {}): AtCommand[] | null {
+  const prefix = line.search(/at/i)
+  if (prefix === -1) return null
+
+  const body = line.substring(prefix + 2)
+  const commands: AtCommand[] = []
+  let index = 0
+
+  const digits = () => {
+    const start = index
+    while (index < body.length && /\d/.test(body[index])) index++
+    return body.substring(start, index)
+  }
+
+  while (index < body.length) {
+    const character = body[index].toUpperCase()
+
+    // spaces and separators between commands are ignored
+    if (character === ' ' || character === ';') {
+      index++
+      continue
+    }
+
+    if (character === '+' || character === '-') {
+      const start = index
+      index++
+      while (index < body.length && /[A-Za-z0-9!%./:_]/.test(body[index])) index++
+
+      const name = body.substring(start, index).toUpperCase()
+      if (name.length === 1) return null
+
+      let type: AtCommandType = 'action'
+      let value = ''
+
+      if (body.startsWith('=?', index)) {
+        type = 'test'
+        index += 2
+      } else if (body[index] === '?') {
+        type = 'read'
+        index++
+      } else if (body[index] === '=') {
+        type = 'set'
+        index++
+
+        if (rawArguments.includes(name)) {
+          value = body.substring(index)
+          index = body.length
+        } else {
+          // arguments extend to the next separator outside of a string constant
+          const start = index
+          let quoted = false
+          while (index < body.length && (quoted || body[index] !== ';')) {
+            if (body[index] === '"') quoted = !quoted
+            index++
+          }
+          value = body.substring(start, index).trim()
+        }
+      }
+
+      commands.push({ name, type, value })
+      continue
+    }
+
+    if (character === 'S') {
+      index++
+      const register = digits()
+      if (register === '') return null
+
+      if (body.startsWith('=?', index)) {
+        index += 2
+        commands.push({ name: 'S', type: 'test', value: '', register: Number(register) })
+      } else if (body[index] === '?') {
+        index++
+        commands.push({ name: 'S', type: 'read', value: '', register: Number(register) })
+      } else if (body[index] === '=') {
+        index++
+        commands.push({ name: 'S', type: 'set', value: digits(), register: Number(register) })
+      } else {
+        commands.push({ name: 'S', type: 'action', value: '', register: Number(register) })
+      }
+      continue
+    }
+
+    let name = character
+    if (BASIC_PREFIXES.includes(character)) {
+      if (index + 1 >= body.length || !/[A-Za-z]/.test(body[index + 1])) return null
+      name += body[index + 1].toUpperCase()
+      index++
+    } else if (!/[A-Z]/.test(character)) {
+      return null
+    }
+    index++
+
+    if (body[index] === '?') {
+      index++
+      commands.push({ name, type: 'read', value: '' })
+    } else {
+      commands.push({ name, type: 'action', value: digits() })
+    }
+  }
+
+  return commands
+}
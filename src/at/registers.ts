@@ -0,0 +1,68 @@
+/** Number of S-registers provided by the ISU */
+export const S_REGISTER_COUNT = 128
+
+/** Command line termination character */
+export const S3 = 3
+/** Response formatting character */
+export const S4 = 4
+/** Command line editing character */
+export const S5 = 5
+
+/** Factory default values of the S-registers, any others default to 0 */
+export const DEFAULT_S_REGISTERS: Record<number, number> = {
+  [S3]: 13,
+  [S4]: 10,
+  [S5]: 8,
+  13: 49,
+  14: 168,
+  21: 48,
+  23: 12
+}
+
+/** S-registers listed in the active and stored configuration (AT&V) */
+export const PROFILE_S_REGISTERS = [S3, S4, S5, 13, 14, 21, 23, 39]
+
+/**
+ * The S-registers of the ISU, each holding a value from 0 to 255.
+ */
+export class SRegisters {
+  #values: number[]
+
+  /** The values of every register, indexed by register number */
+  get values () {
+    return [...this.#values]
+  }
+
+  constructor (values: number[] = []) {
+    this.#values = Array.from({ length: S_REGISTER_COUNT }, (_, register) => values[register] ?? DEFAULT_S_REGISTERS[register] ?? 0)
+  }
+
+  has = (register: number): boolean => {
+    return Number.isInteger(register) && register >= 0 && register < S_REGISTER_COUNT
+  }
+
+  get = (register: number): number => {
+    if (!this.has(register)) throw RangeError(`Expected S-register to be between 0 and ${S_REGISTER_COUNT - 1} but was ${register}`)
+
+    return this.#values[register]
+  }
+
+  set = (register: number, value: number): void => {
+    if (!this.has(register)) throw RangeError(`Expected S-register to be between 0 and ${S_REGISTER_COUNT - 1} but was ${register}`)
+    if (!Number.isInteger(value) || value < 0 || value > 255) throw RangeError(`Expected S-register value to be between 0 and 255 but was ${value}`)
+
+    this.#values[register] = value
+  }
+
+  /**
+   * Restores the factory default value of every register.
+   */
+  reset = (): void => {
+    this.#values = new SRegisters().values
+  }
+
+  /** The register formatted as in AT&V, eg. `S003:013` */
+  format = (register: number): string => {
+    return `S${String(register).padStart(3, '0')}:${String(this.get(register)).padStart(3, '0')}`
+  }
+}
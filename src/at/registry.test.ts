@@ -0,0 +1,31 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { CommandRegistry, ResultCode } from './registry'
+
+describe('CommandRegistry', () => {
+  it('resolves the handler for the form of the command', () => {
+    const registry = new CommandRegistry()
+    const read = () => ResultCode.OK
+
+    registry.register('+sbdmta', { read })
+
+    assert.strictEqual(registry.resolve({ name: '+SBDMTA', type: 'read', value: '' }), read)
+    assert.strictEqual(registry.resolve({ name: '+SBDMTA', type: 'test', value: '' }), undefined)
+    assert.strictEqual(registry.resolve({ name: '+CSQ', type: 'action', value: '' }), undefined)
+  })
+
+  it('registers aliases and merges the forms registered separately', () => {
+    const registry = new CommandRegistry()
+    const action = () => ResultCode.OK
+    const test = () => ResultCode.OK
+
+    registry.register(['+GMI', '+CGMI'], { action })
+    registry.register('+CGMI', { test })
+
+    assert.ok(registry.has('+gmi'))
+    assert.deepStrictEqual(registry.names, ['+GMI', '+CGMI'])
+    assert.strictEqual(registry.resolve({ name: '+CGMI', type: 'action', value: '' }), action)
+    assert.strictEqual(registry.resolve({ name: '+CGMI', type: 'test', value: '' }), test)
+  })
+})
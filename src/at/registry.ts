@@ -0,0 +1,58 @@
+/* eslint-disable no-unused-vars */
+import { AtCommand, AtCommandType } from './parser'
+
+/**
+ * Result codes, by their numeric (ATV0) value. Codes without a
+ * numeric form are sent as their word in both modes.
+ */
+export enum ResultCode {
+  OK = 0,
+  ERROR = 4,
+  /** Unsolicited SBD ring alert */
+  SBDRING = 126,
+  /** Prompt for the message of AT+SBDWB and AT+SBDWT */
+  READY = 'READY'
+}
+
+/**
+ * Handles a command, returning the result code or null when the
+ * handler has written the final response itself (eg. READY before
+ * a binary transfer).
+ */
+export type CommandHandler = (command: AtCommand) => ResultCode | null | Promise<ResultCode | null>
+
+export type CommandDefinition = Partial<Record<AtCommandType, CommandHandler>>
+
+/**
+ * Registry of the commands understood by the emulator, keyed by
+ * command name and the form in which the command is given.
+ */
+export class CommandRegistry {
+  #commands = new Map<string, CommandDefinition>()
+
+  /** Names of the registered commands */
+  get names () {
+    return Array.from(this.#commands.keys())
+  }
+
+  /**
+   * Registers the handlers of a command under one or more names.
+   */
+  register = (names: string | string[], definition: CommandDefinition): void => {
+    for (const name of Array.isArray(names) ? names : [names]) {
+      this.#commands.set(name.toUpperCase(), { ...this.#commands.get(name.toUpperCase()), ...definition })
+    }
+  }
+
+  has = (name: string): boolean => {
+    return this.#commands.has(name.toUpperCase())
+  }
+
+  /**
+   * Returns the handler for the command, if the command is known
+   * in the given form.
+   */
+  resolve = (command: AtCommand): CommandHandler | undefined => {
+    return this.#commands.get(command.name)?.[command.type]
+  }
+}
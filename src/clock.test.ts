@@ -0,0 +1,70 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { VirtualClock } from './clock'
+
+describe('VirtualClock', () => {
+  it('starts at the given time', () => {
+    assert.strictEqual(new VirtualClock().now(), 0)
+    assert.strictEqual(new VirtualClock(new Date(Date.UTC(2024, 0, 1))).now(), Date.UTC(2024, 0, 1))
+  })
+
+  it('fires timers in order as time is advanced past them', async () => {
+    const clock = new VirtualClock()
+    const fired: string[] = []
+
+    clock.setTimeout(() => fired.push(`b@${clock.now()}`), 200)
+    clock.setTimeout(() => fired.push(`a@${clock.now()}`), 100)
+    clock.setTimeout(() => fired.push(`c@${clock.now()}`), 300)
+
+    await clock.advance(250)
+
+    assert.deepStrictEqual(fired, ['a@100', 'b@200'])
+    assert.strictEqual(clock.now(), 250)
+    assert.strictEqual(clock.pending, 1)
+  })
+
+  it('fires timers scheduled by timers within the same advance', async () => {
+    const clock = new VirtualClock()
+    const fired: number[] = []
+
+    clock.setTimeout(() => {
+      fired.push(clock.now())
+      clock.setTimeout(() => fired.push(clock.now()), 100)
+    }, 100)
+
+    await clock.advance(1000)
+
+    assert.deepStrictEqual(fired, [100, 200])
+  })
+
+  it('does not fire cleared timers', async () => {
+    const clock = new VirtualClock()
+    let fired = false
+
+    const timer = clock.setTimeout(() => { fired = true }, 100)
+    clock.clearTimeout(timer)
+    await clock.advance(1000)
+
+    assert.strictEqual(fired, false)
+    assert.strictEqual(clock.pending, 0)
+  })
+
+  it('lets promise continuations run before the next timer fires', async () => {
+    const clock = new VirtualClock()
+    const steps: number[] = []
+
+    const wait = (ms: number) => new Promise<void>((resolve) => clock.setTimeout(resolve, ms))
+    const task = (async () => {
+      await wait(100)
+      steps.push(clock.now())
+      await wait(100)
+      steps.push(clock.now())
+    })()
+
+    await clock.advance(200)
+    await task
+
+    assert.deepStrictEqual(steps, [100, 200])
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Source of time and timers for the emulator. Replacing the system
+ * clock with a virtual clock allows tests to advance emulator time
+ * instantly.
+ */
+export interface Clock {
+  /** The current time in milliseconds since the unix epoch */
+  now (): number
+  setTimeout (callback: () => void, ms: number): unknown
+  clearTimeout (handle: unknown): void
+}
+
+/**
+ * Clock backed by the real system time and timers.
+ */
+export class SystemClock implements Clock {
+  now () {
+    return Date.now()
+  }
+
+  setTimeout (callback: () => void, ms: number) {
+    return setTimeout(callback, ms)
+  }
+
+  clearTimeout (handle: unknown) {
+    clearTimeout(handle as ReturnType<typeof setTimeout>)
+  }
+}
+
+export const systemClock = new SystemClock()
+
+type VirtualTimer = {
+  id: number
+  time: number
+  callback: () => void
+}
+
+/**
+ * Yields to the event loop so that pending promise continuations
+ * and stream events are processed.
+ */
+function settle () {
+  return new Promise<void>(resolve => setImmediate(resolve))
+}
+
+/**
+ * Clock that only moves forward when advanced. Timers scheduled on
+ * the clock fire in order as time is advanced past them.
+ */
+export class VirtualClock implements Clock {
+  #now: number
+
+  #timers: VirtualTimer[] = []
+
+  #nextId = 1
+
+  /** The number of timers waiting to fire */
+  get pending () {
+    return this.#timers.length
+  }
+
+  constructor (start: Date | number = 0) {
+    this.#now = start instanceof Date ? start.getTime() : start
+  }
+
+  now () {
+    return this.#now
+  }
+
+  setTimeout (callback: () => void, ms: number) {
+    const timer = { id: this.#nextId++, time: this.#now + Math.max(ms, 0), callback }
+    this.#timers.push(timer)
+    return timer.id
+  }
+
+  clearTimeout (handle: unknown) {
+    this.#timers = this.#timers.filter(timer => timer.id !== handle)
+  }
+
+  /**
+   * Advances the clock, firing every timer that falls due along the
+   * way (including timers scheduled by the timers that fire).
+   */
+  advance = async (ms: number): Promise<void> => {
+    const target = this.#now + ms
+
+    for (;;) {
+      await settle()
+
+      const due = this.#timers
+        .filter(timer => timer.time <= target)
+        .sort((a, b) => a.time - b.time || a.id - b.id)[0]
+
+      if (due === undefined) break
+
+      this.#timers = this.#timers.filter(timer => timer !== due)
+      this.#now = due.time
+      due.callback()
+    }
+
+    this.#now = target
+    await settle()
+  }
+}
@@ -0,0 +1,19 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { inputViolationType, ProtocolViolationType } from './conformance'
+
+describe('inputViolationType', () => {
+  it('reports input during a session with the gateway', () => {
+    assert.strictEqual(inputViolationType('AT+SBDIX'), ProtocolViolationType.COMMAND_DURING_SESSION)
+    assert.strictEqual(inputViolationType('at+sbdreg '), ProtocolViolationType.COMMAND_DURING_SESSION)
+  })
+
+  it('reports input before the READY of a binary transfer', () => {
+    assert.strictEqual(inputViolationType('AT+SBDWB=10'), ProtocolViolationType.BINARY_BEFORE_READY)
+  })
+
+  it('reports input before the response of any other command', () => {
+    assert.strictEqual(inputViolationType('AT+CSQ'), ProtocolViolationType.COMMAND_BEFORE_RESPONSE)
+  })
+})
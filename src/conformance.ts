@@ -0,0 +1,43 @@
+/* eslint-disable no-unused-vars */
+
+/** Ways in which the DTE can violate the ISU AT Command Reference */
+export enum ProtocolViolationType {
+  /** Input was sent while an SBD session or registration was in progress */
+  COMMAND_DURING_SESSION = 'command-during-session',
+  /** Input was sent before the response to the previous command was complete */
+  COMMAND_BEFORE_RESPONSE = 'command-before-response',
+  /** The command line was not terminated by a lone <CR> (S3) */
+  LINE_TERMINATOR = 'line-terminator',
+  /** Binary data was written before the ISU indicated READY */
+  BINARY_BEFORE_READY = 'binary-before-ready',
+  /** The binary transfer was not completed within 60 seconds */
+  BINARY_TIMEOUT = 'binary-timeout',
+  /** An SBD ring alert was not answered with AT+SBDIXA */
+  RING_ALERT_NOT_ANSWERED = 'ring-alert-not-answered'
+}
+
+export type ProtocolViolation = {
+  type: ProtocolViolationType
+  message: string
+  /** The command being processed when the violation occurred */
+  command: string | null
+  /** The offending input from the DTE, hex encoded when binary */
+  received: string
+  datetime: Date
+}
+
+/** Commands during which the ISU is in a session with the gateway */
+const SESSION_COMMANDS = ['AT+SBDIX', 'AT+SBDIXA', 'AT+SBDI', 'AT+SBDREG', 'AT+SBDDET']
+
+/**
+ * Determines the violation caused by input received while the
+ * given command is being processed.
+ */
+export function inputViolationType (command: string) {
+  const normalized = command.trim().toUpperCase()
+
+  if (SESSION_COMMANDS.includes(normalized)) return ProtocolViolationType.COMMAND_DURING_SESSION
+  if (normalized.startsWith('AT+SBDWB=')) return ProtocolViolationType.BINARY_BEFORE_READY
+
+  return ProtocolViolationType.COMMAND_BEFORE_RESPONSE
+}
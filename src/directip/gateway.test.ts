@@ -0,0 +1,128 @@
+import assert from 'assert'
+import { AddressInfo, connect, createServer } from 'net'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { DirectIpGateway, DirectIpMTMessage } from './gateway'
+import { decodeMessage, encodeMessage, InformationElement, messageLength } from './protocol'
+
+const IMEI = '300534062390910'
+
+/** Encodes an information element */
+function element (iei: InformationElement, content: Buffer) {
+  const header = Buffer.alloc(3)
+  header.writeUInt8(iei, 0)
+  header.writeUInt16BE(content.length, 1)
+  return Buffer.concat([header, content])
+}
+
+/** Encodes an MT message as sent by a vendor application */
+function mtMessage (clientMessageId: number, payload: Buffer, imei = IMEI) {
+  const header = Buffer.alloc(21)
+  header.writeUInt32BE(clientMessageId, 0)
+  header.write(imei, 4, 'ascii')
+  header.writeUInt16BE(0, 19)
+
+  return encodeMessage([element(InformationElement.MT_HEADER, header), element(InformationElement.MT_PAYLOAD, payload)])
+}
+
+/**
+ * Sends data to the MT server, resolving with everything received
+ * before the connection closed. The retransmission is sent once the
+ * server has responded.
+ */
+function sendMT (port: number, data: Buffer, retransmission?: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let received = Buffer.alloc(0)
+
+    const socket = connect({ host: '127.0.0.1', port }, () => socket.write(data))
+    socket.on('data', (chunk) => {
+      if (retransmission && received.length === 0) socket.write(retransmission)
+      received = Buffer.concat([received, chunk])
+    })
+    socket.on('error', reject)
+    socket.on('close', () => resolve(received))
+  })
+}
+
+describe('DirectIpGateway', () => {
+  let gateway: DirectIpGateway
+  let queue: DirectIpMTMessage[]
+
+  beforeEach(async () => {
+    queue = []
+    gateway = new DirectIpGateway({ imei: IMEI, mt: { port: 0 }, queueLength: () => queue.length })
+    gateway.on('mt-message', (message) => queue.push(message))
+    await gateway.listen()
+  })
+
+  afterEach(async () => {
+    await gateway.close()
+  })
+
+  it('queues an MT message and confirms it', async () => {
+    const response = await sendMT(gateway.mtPort, mtMessage(7, Buffer.from('hello')))
+    const confirmation = decodeMessage(response).get(InformationElement.MT_CONFIRMATION)
+
+    assert.strictEqual(queue.length, 1)
+    assert.strictEqual(queue[0].payload.toString(), 'hello')
+    assert.ok(confirmation)
+    assert.strictEqual(confirmation.readUInt32BE(0), 7)
+    assert.strictEqual(confirmation.readInt16BE(23), 1)
+  })
+
+  it('rejects an MT message for another IMEI', async () => {
+    const response = await sendMT(gateway.mtPort, mtMessage(1, Buffer.from('hi'), '300534062390911'))
+    const confirmation = decodeMessage(response).get(InformationElement.MT_CONFIRMATION)
+
+    assert.strictEqual(queue.length, 0)
+    assert.strictEqual(confirmation?.readInt16BE(23), -2)
+  })
+
+  it('pushes MO messages to the vendor server', async () => {
+    let received = Buffer.alloc(0)
+
+    const vendor = createServer((socket) => {
+      socket.on('data', (chunk) => {
+        received = Buffer.concat([received, chunk])
+        if (received.length === messageLength(received)) {
+          socket.end(encodeMessage([element(InformationElement.MO_CONFIRMATION, Buffer.from([1]))]))
+        }
+      })
+    })
+    await new Promise<void>((resolve) => vendor.listen(0, '127.0.0.1', resolve))
+
+    const mo = new DirectIpGateway({
+      imei: IMEI,
+      mo: { host: '127.0.0.1', port: (vendor.address() as AddressInfo).port },
+      queueLength: () => 0
+    })
+
+    try {
+      const delivered = new Promise<boolean>((resolve) => mo.once('mo-delivered', (message, confirmed) => resolve(confirmed)))
+
+      await mo.deliverMO({
+        header: { imei: IMEI, sessionStatus: 0, momsn: 3, mtmsn: 0, timeOfSession: new Date(0) },
+        location: { latitude: 0, longitude: 0, cep: 1 },
+        payload: Buffer.from('hello')
+      })
+
+      assert.strictEqual(await delivered, true)
+
+      const elements = decodeMessage(received)
+      assert.strictEqual(elements.get(InformationElement.MO_HEADER)?.readUInt32BE(0), 1)
+      assert.strictEqual(elements.get(InformationElement.MO_HEADER)?.readUInt16BE(20), 3)
+      assert.strictEqual(elements.get(InformationElement.MO_PAYLOAD)?.toString(), 'hello')
+      assert.ok(elements.has(InformationElement.MO_LOCATION))
+    } finally {
+      await new Promise((resolve) => vendor.close(resolve))
+    }
+  })
+
+  it('processes only the first message of a connection', async () => {
+    const message = mtMessage(1, Buffer.from('once'))
+    const response = await sendMT(gateway.mtPort, Buffer.concat([message, message]), message)
+
+    assert.strictEqual(queue.length, 1)
+    assert.strictEqual(response.length, 3 + 3 + 25)
+  })
+})
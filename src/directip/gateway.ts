@@ -0,0 +1,295 @@
+import { connect, createServer, Server, Socket } from 'net'
+import { TypedEmitter } from 'tiny-typed-emitter'
+
+import {
+  decodeMessage,
+  decodeMTHeader,
+  decodeMTPriority,
+  encodeMessage,
+  encodeMOHeader,
+  encodeMOLocation,
+  encodeMOPayload,
+  encodeMTConfirmation,
+  InformationElement,
+  messageLength,
+  MOHeader,
+  MOLocation,
+  MTConfirmation,
+  MTDispositionFlag,
+  MTHeader,
+  MTMessageStatus
+} from './protocol'
+
+export type DirectIpMOMessage = {
+  header: MOHeader
+  payload: Buffer
+  location: MOLocation
+}
+
+export type DirectIpMTMessage = {
+  header: MTHeader
+  payload: Buffer
+  priority: number | null
+}
+
+export interface DirectIpGatewayInterface {
+  'mo-delivered': (message: DirectIpMOMessage, confirmed: boolean) => void
+  'mo-failed': (message: DirectIpMOMessage, error: Error) => void
+  'mt-message': (message: DirectIpMTMessage) => void
+  'mt-flush': () => void
+  'mt-confirmation': (confirmation: MTConfirmation) => void
+  'error': (error: Error) => void
+}
+
+/**
+ * Emulates the Iridium gateway side of the DirectIP protocol. MO
+ * messages are pushed to the configured vendor server and MT
+ * messages are accepted from vendor applications.
+ */
+export class DirectIpGateway extends TypedEmitter<DirectIpGatewayInterface> {
+  #imei: string
+
+  #mo: { host: string, port: number } | null
+
+  #mtServer: Server | null = null
+
+  #mtPort: number
+
+  /** The TCP port the MT server is listening on */
+  get mtPort () {
+    const address = this.#mtServer?.address()
+    return address && typeof address === 'object' ? address.port : this.#mtPort
+  }
+
+  #mtHost: string
+
+  get mtHost () {
+    return this.#mtHost
+  }
+
+  #maxMessageLength: number
+
+  #maxQueueLength: number
+
+  /** Returns the number of messages currently waiting in the MT queue */
+  #queueLength: () => number
+
+  /** Reference assigned to each accepted MT message */
+  #autoIdReference = 0
+
+  /** Call Detail Record reference assigned to each MO message */
+  #cdrReference = 0
+
+  #timeout: number
+
+  constructor ({
+    imei,
+    mo,
+    mt,
+    maxMessageLength = 270,
+    maxQueueLength = 50,
+    timeout = 10000,
+    queueLength
+  }: {
+    imei: string,
+    mo?: { host: string, port: number },
+    mt?: { port: number, host?: string },
+    maxMessageLength?: number,
+    maxQueueLength?: number,
+    timeout?: number,
+    queueLength: () => number
+  }) {
+    super()
+
+    this.#imei = imei
+    this.#mo = mo ?? null
+    this.#mtPort = mt?.port ?? 0
+    this.#mtHost = mt?.host ?? '127.0.0.1'
+    this.#maxMessageLength = maxMessageLength
+    this.#maxQueueLength = maxQueueLength
+    this.#timeout = timeout
+    this.#queueLength = queueLength
+
+    if (mt) {
+      this.#mtServer = createServer((socket) => this.#handleMTConnection(socket))
+      this.#mtServer.on('error', (error) => this.emit('error', error))
+    }
+  }
+
+  listen (): Promise<void> {
+    const server = this.#mtServer
+    if (server === null) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.#mtPort, this.#mtHost, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+  }
+
+  close (): Promise<void> {
+    const server = this.#mtServer
+    if (server === null || !server.listening) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      server.close((error) => error ? reject(error) : resolve())
+    })
+  }
+
+  /**
+   * Pushes an MO message to the vendor server. Resolves once the
+   * server has closed the connection, after optionally sending an
+   * MO confirmation.
+   */
+  deliverMO = async (message: Omit<DirectIpMOMessage, 'header'> & { header: Omit<MOHeader, 'cdrReference'> }): Promise<void> => {
+    if (this.#mo === null) return
+
+    const mo: DirectIpMOMessage = {
+      ...message,
+      header: { ...message.header, cdrReference: ++this.#cdrReference }
+    }
+
+    const data = encodeMessage([
+      encodeMOHeader(mo.header),
+      encodeMOLocation(mo.location),
+      encodeMOPayload(mo.payload)
+    ])
+
+    const { host, port } = this.#mo
+
+    try {
+      const confirmed = await new Promise<boolean>((resolve, reject) => {
+        let received = Buffer.alloc(0)
+
+        const socket = connect({ host, port }, () => socket.end(data))
+        socket.setTimeout(this.#timeout, () => socket.destroy(Error(`Connection timed out after ${this.#timeout}ms`)))
+        socket.on('data', (chunk) => { received = Buffer.concat([received, chunk]) })
+        socket.on('error', reject)
+        socket.on('close', (hadError) => {
+          if (hadError) return
+
+          const length = messageLength(received)
+          if (length === null || received.length < length) return resolve(false)
+
+          try {
+            const confirmation = decodeMessage(received).get(InformationElement.MO_CONFIRMATION)
+            resolve(confirmation !== undefined && confirmation.length >= 1 && confirmation.readUInt8(0) === 1)
+          } catch (error) {
+            // a malformed response from the vendor server
+            reject(error)
+          }
+        })
+      })
+
+      this.emit('mo-delivered', mo, confirmed)
+    } catch (error: unknown) {
+      this.emit('mo-failed', mo, error instanceof Error ? error : Error(String(error)))
+    }
+  }
+
+  #handleMTConnection (socket: Socket) {
+    let received = Buffer.alloc(0)
+
+    socket.setTimeout(this.#timeout, () => socket.destroy())
+    socket.on('error', (error) => this.emit('error', error))
+
+    const handleData = (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk])
+
+      const length = messageLength(received)
+      if (length === null || received.length < length) return
+
+      // only the first message of a connection is processed
+      socket.off('data', handleData)
+
+      const confirmation = this.#processMT(received.subarray(0, length))
+      this.emit('mt-confirmation', confirmation)
+
+      socket.end(encodeMessage([encodeMTConfirmation(confirmation)]))
+    }
+
+    socket.on('data', handleData)
+  }
+
+  #processMT (data: Buffer): MTConfirmation {
+    const confirmation: MTConfirmation = {
+      clientMessageId: 0,
+      imei: '',
+      autoIdReference: 0,
+      status: MTMessageStatus.PROTOCOL_VIOLATION
+    }
+
+    let header: MTHeader
+    let payload: Buffer | undefined
+    let priority: number | null = null
+
+    try {
+      const elements = decodeMessage(data)
+
+      const headerElement = elements.get(InformationElement.MT_HEADER)
+      if (headerElement === undefined) return confirmation
+
+      header = decodeMTHeader(headerElement)
+      payload = elements.get(InformationElement.MT_PAYLOAD)
+
+      const priorityElement = elements.get(InformationElement.MT_PRIORITY)
+      if (priorityElement !== undefined) priority = decodeMTPriority(priorityElement)
+    } catch (error: unknown) {
+      this.emit('error', error instanceof Error ? error : Error(String(error)))
+      return confirmation
+    }
+
+    confirmation.clientMessageId = header.clientMessageId
+    confirmation.imei = header.imei
+
+    if (!/^[0-9]{15}$/.test(header.imei)) {
+      confirmation.status = MTMessageStatus.INVALID_IMEI
+      return confirmation
+    }
+
+    if (header.imei !== this.#imei) {
+      confirmation.status = MTMessageStatus.UNKNOWN_IMEI
+      return confirmation
+    }
+
+    if (priority !== null && (priority < 1 || priority > 5)) {
+      confirmation.status = MTMessageStatus.PROTOCOL_VIOLATION
+      return confirmation
+    }
+
+    const flush = (header.dispositionFlags & MTDispositionFlag.FLUSH_MT_QUEUE) !== 0
+    const ringAlert = (header.dispositionFlags & MTDispositionFlag.SEND_RING_ALERT) !== 0
+
+    if (flush) this.emit('mt-flush')
+
+    if (payload === undefined) {
+      confirmation.status = flush || ringAlert ? MTMessageStatus.NO_PAYLOAD : MTMessageStatus.PAYLOAD_EXPECTED
+      return confirmation
+    }
+
+    if (payload.length > this.#maxMessageLength) {
+      confirmation.status = MTMessageStatus.PAYLOAD_SIZE_EXCEEDED
+      return confirmation
+    }
+
+    if (this.#queueLength() >= this.#maxQueueLength) {
+      confirmation.status = MTMessageStatus.QUEUE_FULL
+      return confirmation
+    }
+
+    try {
+      this.emit('mt-message', { header, payload, priority })
+    } catch (error: unknown) {
+      this.emit('error', error instanceof Error ? error : Error(String(error)))
+      confirmation.status = MTMessageStatus.RESOURCES_UNAVAILABLE
+      return confirmation
+    }
+
+    confirmation.autoIdReference = ++this.#autoIdReference
+    confirmation.status = this.#queueLength()
+
+    return confirmation
+  }
+}
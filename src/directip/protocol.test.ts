@@ -0,0 +1,132 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import {
+  decodeMessage,
+  decodeMTHeader,
+  decodeMTPriority,
+  encodeMessage,
+  encodeMOHeader,
+  encodeMOLocation,
+  encodeMOPayload,
+  encodeMTConfirmation,
+  InformationElement,
+  messageLength,
+  MTMessageStatus
+} from './protocol'
+
+const IMEI = '300534062390910'
+
+describe('encodeMessage', () => {
+  it('prefixes the protocol revision and overall length', () => {
+    const message = encodeMessage([encodeMOPayload(Buffer.from('hi'))])
+
+    assert.deepStrictEqual(message, Buffer.from([0x01, 0x00, 0x05, 0x02, 0x00, 0x02, 0x68, 0x69]))
+    assert.strictEqual(messageLength(message), 8)
+  })
+})
+
+describe('messageLength', () => {
+  it('returns null until the length has been received', () => {
+    assert.strictEqual(messageLength(Buffer.from([0x01, 0x00])), null)
+    assert.strictEqual(messageLength(Buffer.from([0x01, 0x01, 0x00])), 259)
+  })
+})
+
+describe('decodeMessage', () => {
+  it('splits the message into its information elements', () => {
+    const elements = decodeMessage(encodeMessage([
+      encodeMOPayload(Buffer.from('hello')),
+      encodeMOHeader({ cdrReference: 1, imei: IMEI, sessionStatus: 0, momsn: 1, mtmsn: 0, timeOfSession: new Date(0) })
+    ]))
+
+    assert.deepStrictEqual([...elements.keys()], [InformationElement.MO_PAYLOAD, InformationElement.MO_HEADER])
+    assert.strictEqual(elements.get(InformationElement.MO_PAYLOAD)?.toString(), 'hello')
+  })
+
+  it('rejects other protocol revisions', () => {
+    assert.throws(() => decodeMessage(Buffer.from([0x02, 0x00, 0x00])), /Unsupported DirectIP protocol revision 2/)
+  })
+
+  it('rejects truncated information elements', () => {
+    assert.throws(() => decodeMessage(Buffer.from([0x01, 0x00, 0x02, 0x42, 0x00])), /Truncated DirectIP information element header/)
+    assert.throws(() => decodeMessage(Buffer.from([0x01, 0x00, 0x04, 0x42, 0x00, 0x02, 0xff])), /Truncated DirectIP information element 0x42/)
+  })
+})
+
+describe('encodeMOHeader', () => {
+  it('encodes the 28 byte MO header', () => {
+    const header = encodeMOHeader({
+      cdrReference: 0x01020304,
+      imei: IMEI,
+      sessionStatus: 0,
+      momsn: 0x10001,
+      mtmsn: 7,
+      timeOfSession: new Date(Date.UTC(2024, 0, 1))
+    })
+
+    assert.strictEqual(header.readUInt8(0), InformationElement.MO_HEADER)
+    assert.strictEqual(header.readUInt16BE(1), 28)
+    assert.strictEqual(header.readUInt32BE(3), 0x01020304)
+    assert.strictEqual(header.toString('ascii', 7, 22), IMEI)
+    assert.strictEqual(header.readUInt8(22), 0)
+    // the MOMSN and MTMSN are 16 bit values
+    assert.strictEqual(header.readUInt16BE(23), 1)
+    assert.strictEqual(header.readUInt16BE(25), 7)
+    assert.strictEqual(header.readUInt32BE(27), Date.UTC(2024, 0, 1) / 1000)
+  })
+})
+
+describe('encodeMOLocation', () => {
+  it('encodes degrees and thousandths of minutes with the hemisphere flags', () => {
+    const location = encodeMOLocation({ latitude: -33.5, longitude: 151.25, cep: 3 })
+
+    assert.deepStrictEqual(location, Buffer.from([
+      InformationElement.MO_LOCATION, 0x00, 0x0b,
+      0x02,
+      33, 0x75, 0x30,
+      151, 0x3a, 0x98,
+      0x00, 0x00, 0x00, 0x03
+    ]))
+  })
+
+  it('sets the east/west flag for western longitudes', () => {
+    const location = encodeMOLocation({ latitude: 51.5, longitude: -0.5, cep: 10 })
+    assert.strictEqual(location.readUInt8(3), 0x01)
+  })
+})
+
+describe('decodeMTHeader', () => {
+  it('decodes the 21 byte MT header', () => {
+    const content = Buffer.alloc(21)
+    content.writeUInt32BE(42, 0)
+    content.write(IMEI, 4, 'ascii')
+    content.writeUInt16BE(0x0003, 19)
+
+    assert.deepStrictEqual(decodeMTHeader(content), { clientMessageId: 42, imei: IMEI, dispositionFlags: 3 })
+  })
+
+  it('rejects an MT header of another length', () => {
+    assert.throws(() => decodeMTHeader(Buffer.alloc(20)), /Expected MT header length of 21 but was 20/)
+  })
+})
+
+describe('decodeMTPriority', () => {
+  it('decodes the priority level', () => {
+    assert.strictEqual(decodeMTPriority(Buffer.from([0x00, 0x02])), 2)
+    assert.throws(() => decodeMTPriority(Buffer.from([0x02])), /Expected MT priority length of 2 but was 1/)
+  })
+})
+
+describe('encodeMTConfirmation', () => {
+  it('encodes the 25 byte MT confirmation with a signed status', () => {
+    const confirmation = encodeMTConfirmation({ clientMessageId: 42, imei: IMEI, autoIdReference: 9, status: MTMessageStatus.QUEUE_FULL })
+
+    assert.strictEqual(confirmation.readUInt8(0), InformationElement.MT_CONFIRMATION)
+    assert.strictEqual(confirmation.readUInt16BE(1), 25)
+    assert.strictEqual(confirmation.readUInt32BE(3), 42)
+    assert.strictEqual(confirmation.toString('ascii', 7, 22), IMEI)
+    assert.strictEqual(confirmation.readUInt32BE(22), 9)
+    assert.strictEqual(confirmation.readInt16BE(26), -5)
+  })
+})
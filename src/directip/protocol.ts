@@ -0,0 +1,177 @@
+/* eslint-disable no-unused-vars */
+
+export const PROTOCOL_REVISION = 1
+
+/** Information Element Identifiers used by the DirectIP protocol */
+export enum InformationElement {
+  MO_HEADER = 0x01,
+  MO_PAYLOAD = 0x02,
+  MO_LOCATION = 0x03,
+  MO_CONFIRMATION = 0x05,
+  MT_HEADER = 0x41,
+  MT_PAYLOAD = 0x42,
+  MT_CONFIRMATION = 0x44,
+  MT_PRIORITY = 0x46
+}
+
+/** MT disposition flags provided in the MT header */
+export enum MTDispositionFlag {
+  FLUSH_MT_QUEUE = 0x0001,
+  SEND_RING_ALERT = 0x0002
+}
+
+/** MT message status returned in the MT confirmation */
+export enum MTMessageStatus {
+  NO_PAYLOAD = 0,
+  INVALID_IMEI = -1,
+  UNKNOWN_IMEI = -2,
+  PAYLOAD_SIZE_EXCEEDED = -3,
+  PAYLOAD_EXPECTED = -4,
+  QUEUE_FULL = -5,
+  RESOURCES_UNAVAILABLE = -6,
+  PROTOCOL_VIOLATION = -7,
+  RING_ALERTS_DISABLED = -8,
+  IMEI_NOT_ATTACHED = -9,
+  SOURCE_IP_REJECTED = -10,
+  MTMSN_OUT_OF_RANGE = -11
+}
+
+export type InformationElements = Map<number, Buffer>
+
+export type MOHeader = {
+  cdrReference: number
+  imei: string
+  sessionStatus: number
+  momsn: number
+  mtmsn: number
+  timeOfSession: Date
+}
+
+export type MOLocation = {
+  latitude: number
+  longitude: number
+  cep: number
+}
+
+export type MTHeader = {
+  clientMessageId: number
+  imei: string
+  dispositionFlags: number
+}
+
+export type MTConfirmation = {
+  clientMessageId: number
+  imei: string
+  autoIdReference: number
+  status: MTMessageStatus | number
+}
+
+function element (iei: InformationElement, content: Buffer) {
+  const header = Buffer.alloc(3)
+  header.writeUInt8(iei, 0)
+  header.writeUInt16BE(content.length, 1)
+  return Buffer.concat([header, content])
+}
+
+/**
+ * Wraps the information elements with the protocol revision
+ * and overall message length.
+ */
+export function encodeMessage (elements: Buffer[]) {
+  const body = Buffer.concat(elements)
+  const header = Buffer.alloc(3)
+  header.writeUInt8(PROTOCOL_REVISION, 0)
+  header.writeUInt16BE(body.length, 1)
+  return Buffer.concat([header, body])
+}
+
+/**
+ * Returns the total length of the message at the start of the
+ * buffer, or null when not enough bytes have been received.
+ */
+export function messageLength (buffer: Buffer) {
+  return buffer.length < 3 ? null : 3 + buffer.readUInt16BE(1)
+}
+
+/**
+ * Splits a complete message into its information elements.
+ */
+export function decodeMessage (buffer: Buffer): InformationElements {
+  if (buffer.readUInt8(0) !== PROTOCOL_REVISION) {
+    throw Error(`Unsupported DirectIP protocol revision ${buffer.readUInt8(0)}`)
+  }
+
+  const elements: InformationElements = new Map()
+  const end = 3 + buffer.readUInt16BE(1)
+  let offset = 3
+
+  while (offset < end) {
+    if (offset + 3 > end) throw Error('Truncated DirectIP information element header')
+
+    const iei = buffer.readUInt8(offset)
+    const length = buffer.readUInt16BE(offset + 1)
+    if (offset + 3 + length > end) throw Error(`Truncated DirectIP information element 0x${iei.toString(16)}`)
+
+    elements.set(iei, buffer.subarray(offset + 3, offset + 3 + length))
+    offset += 3 + length
+  }
+
+  return elements
+}
+
+export function encodeMOHeader (header: MOHeader) {
+  const content = Buffer.alloc(28)
+  content.writeUInt32BE(header.cdrReference, 0)
+  content.write(header.imei.padEnd(15, '0').substring(0, 15), 4, 'ascii')
+  content.writeUInt8(header.sessionStatus, 19)
+  content.writeUInt16BE(header.momsn & 0xffff, 20)
+  content.writeUInt16BE(header.mtmsn & 0xffff, 22)
+  content.writeUInt32BE(Math.floor(header.timeOfSession.getTime() / 1000), 24)
+  return element(InformationElement.MO_HEADER, content)
+}
+
+export function encodeMOPayload (payload: Buffer) {
+  return element(InformationElement.MO_PAYLOAD, payload)
+}
+
+export function encodeMOLocation (location: MOLocation) {
+  const content = Buffer.alloc(11)
+
+  const latitude = Math.abs(location.latitude)
+  const longitude = Math.abs(location.longitude)
+
+  // format code 0, NSI and EWI set for southern and western hemispheres
+  content.writeUInt8((location.latitude < 0 ? 0x02 : 0) | (location.longitude < 0 ? 0x01 : 0), 0)
+  content.writeUInt8(Math.floor(latitude), 1)
+  content.writeUInt16BE(Math.round((latitude % 1) * 60 * 1000), 2)
+  content.writeUInt8(Math.floor(longitude), 4)
+  content.writeUInt16BE(Math.round((longitude % 1) * 60 * 1000), 5)
+  content.writeUInt32BE(Math.round(location.cep), 7)
+
+  return element(InformationElement.MO_LOCATION, content)
+}
+
+export function decodeMTHeader (content: Buffer): MTHeader {
+  if (content.length !== 21) throw Error(`Expected MT header length of 21 but was ${content.length}`)
+
+  return {
+    clientMessageId: content.readUInt32BE(0),
+    imei: content.toString('ascii', 4, 19),
+    dispositionFlags: content.readUInt16BE(19)
+  }
+}
+
+export function decodeMTPriority (content: Buffer) {
+  if (content.length !== 2) throw Error(`Expected MT priority length of 2 but was ${content.length}`)
+
+  return content.readUInt16BE(0)
+}
+
+export function encodeMTConfirmation (confirmation: MTConfirmation) {
+  const content = Buffer.alloc(25)
+  content.writeUInt32BE(confirmation.clientMessageId, 0)
+  content.write(confirmation.imei.padEnd(15, ' ').substring(0, 15), 4, 'ascii')
+  content.writeUInt32BE(confirmation.autoIdReference, 19)
+  content.writeInt16BE(confirmation.status, 23)
+  return element(InformationElement.MT_CONFIRMATION, content)
+}
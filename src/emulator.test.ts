@@ -0,0 +1,885 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { ProtocolViolation, ProtocolViolationType } from './conformance'
+import { LogLevel, SBDMessage } from './emulator'
+import { distance, ecefPosition, TrackLocationProvider } from './location'
+import { createDeviceProfile } from './profiles'
+import { SignalQualityRating, TraceSignalModel } from './signal'
+import { IRIDIUM_EPOCH, iridiumSystemTime } from './system-time'
+import { Harness } from './testing/harness'
+import { calculateChecksum, trimBuffer } from './utils'
+
+/** Appends the SBD checksum to a message */
+function withChecksum (message: Buffer) {
+  return Buffer.concat([message, calculateChecksum(message)])
+}
+
+describe('IridiumEmulator', () => {
+  let harness: Harness
+
+  beforeEach(() => {
+    harness = new Harness()
+  })
+
+  afterEach(async () => {
+    await harness.close()
+  })
+
+  describe('command lines', () => {
+    it('accepts commands in any case', async () => {
+      assert.deepStrictEqual(await harness.command('at+cgmi'), ['Iridium', 'OK'])
+    })
+
+    it('executes chained basic and extended commands with a single result code', async () => {
+      assert.deepStrictEqual(await harness.command('ATE0Q0V1+SBDMTA=0;+SBDMTA?'), ['+SBDMTA:0', 'OK'])
+      assert.strictEqual(harness.emulator.echoEnabled, false)
+    })
+
+    it('stops at the first command which fails', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDMTA=1;+NOPE;+SBDMTA=0'), ['ERROR'])
+      assert.strictEqual(harness.emulator.ringAlertsEnabled, true)
+    })
+
+    it('answers the read and test forms', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDMTA=?'), ['+SBDMTA:(0-1)', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDMTA?'), ['+SBDMTA:0', 'OK'])
+    })
+
+    it('repeats the previous command line with A/', async () => {
+      await harness.command('ATE0')
+      await harness.command('AT+SBDWT=first')
+      harness.read()
+
+      harness.emulator.moBuffer.fill(0)
+      await harness.send('A/')
+
+      assert.deepStrictEqual(harness.readLines(), ['OK'])
+      assert.strictEqual(trimBuffer(harness.emulator.moBuffer).toString(), 'first')
+    })
+
+    it('applies backspaces before parsing', async () => {
+      assert.deepStrictEqual(await harness.command('AT+CGMX\bI'), ['Iridium', 'OK'])
+    })
+  })
+
+  describe('result codes', () => {
+    it('sends numeric result codes terminated by a lone <CR> under ATV0', async () => {
+      await harness.command('ATE0V0')
+      harness.read()
+
+      await harness.send('AT\r')
+      assert.strictEqual(harness.read(), '0\r')
+
+      await harness.send('AT+SBDWB=x\r')
+      assert.strictEqual(harness.read(), '4\r')
+    })
+
+    it('sends the READY prompt with the result code terminator', async () => {
+      await harness.command('ATE0V0')
+      harness.read()
+
+      await harness.send('AT+SBDWB=5\r')
+      assert.strictEqual(harness.read(), 'READY\r')
+    })
+
+    it('suppresses result codes but not information responses under ATQ1', async () => {
+      await harness.command('ATQ1')
+
+      assert.deepStrictEqual(await harness.command('AT'), [])
+      assert.deepStrictEqual(await harness.command('AT+CSQ', 5000), ['+CSQ:5'])
+      assert.deepStrictEqual(await harness.command('AT+SBDWB=5'), [])
+    })
+  })
+
+  describe('S-registers', () => {
+    it('reads, writes and tests S-registers', async () => {
+      assert.deepStrictEqual(await harness.command('ATS3?'), ['013', 'OK'])
+      assert.deepStrictEqual(await harness.command('ATS13=?'), ['(0-255)', 'OK'])
+      assert.deepStrictEqual(await harness.command('ATS13=200'), ['OK'])
+      assert.deepStrictEqual(await harness.command('ATS13?'), ['200', 'OK'])
+    })
+
+    it('rejects invalid registers and values', async () => {
+      assert.deepStrictEqual(await harness.command('ATS128?'), ['ERROR'])
+      assert.deepStrictEqual(await harness.command('ATS13=256'), ['ERROR'])
+      assert.deepStrictEqual(await harness.command('ATS13=x'), ['ERROR'])
+      assert.deepStrictEqual(await harness.command('ATS13='), ['ERROR'])
+    })
+
+    it('terminates command lines and responses with S3 and S4', async () => {
+      await harness.command('ATE0')
+      await harness.send('ATS3=64S4=0\r')
+      harness.read()
+
+      await harness.send('AT@')
+      assert.strictEqual(harness.read(), 'OK@\0')
+    })
+
+    it('edits command lines with the S5 character', async () => {
+      await harness.command('ATS5=35')
+
+      assert.deepStrictEqual(await harness.command('AT+CGMX#I'), ['Iridium', 'OK'])
+    })
+
+    it('displays the registers with AT%R', async () => {
+      await harness.command('ATS13=255')
+      const lines = await harness.command('AT%R', 5000)
+
+      assert.strictEqual(lines[0], 'REG  DEC HEX  REG  DEC HEX')
+      assert.ok(lines.includes('S012 000 00H  S013 255 FFH'))
+      assert.strictEqual(lines.length, 1 + 64 + 1)
+    })
+  })
+
+  describe('configuration profiles', () => {
+    it('stores the active configuration with AT&W and restores it with ATZ', async () => {
+      await harness.command('ATE0Q0V1&K3S13=100&W1')
+      await harness.command('AT&F')
+      assert.strictEqual(harness.emulator.echoEnabled, true)
+
+      await harness.command('ATZ1')
+      assert.strictEqual(harness.emulator.echoEnabled, false)
+      assert.strictEqual(harness.emulator.flowControl, true)
+      assert.strictEqual(harness.emulator.registers.get(13), 100)
+    })
+
+    it('resets to the factory configuration with AT&F', async () => {
+      await harness.command('ATV0S13=1')
+      await harness.command('AT&F0')
+
+      assert.strictEqual(harness.emulator.verboseMode, true)
+      assert.strictEqual(harness.emulator.registers.get(13), 49)
+    })
+
+    it('lists the active and stored configurations with AT&V', async () => {
+      await harness.command('ATE0&W0')
+
+      assert.deepStrictEqual(await harness.command('AT&V'), [
+        'ACTIVE PROFILE: ',
+        'E0 Q0 V1 &D2 &K0',
+        'S003:013 S004:010 S005:008 S013:049 S014:168 S021:048 S023:012 S039:000',
+        'STORED PROFILE 0:',
+        'E0 Q0 V1 &D2 &K0',
+        'S003:013 S004:010 S005:008 S013:049 S014:168 S021:048 S023:012 S039:000',
+        'STORED PROFILE 1:',
+        'E1 Q0 V1 &D2 &K0',
+        'S003:013 S004:010 S005:008 S013:049 S014:168 S021:048 S023:012 S039:000',
+        'OK'
+      ])
+    })
+  })
+
+  describe('AT+SBDWB', () => {
+    it('writes the binary message to the MO buffer without waiting for wall time', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDWB=5'), ['READY'])
+
+      await harness.send(withChecksum(Buffer.from('hello')), 100)
+
+      assert.deepStrictEqual(harness.readLines(), ['0'])
+      assert.strictEqual(harness.emulator.moBuffer.subarray(0, 5).toString(), 'hello')
+    })
+
+    it('assembles a message written in several chunks', async () => {
+      const message = withChecksum(Buffer.from([1, 2, 3, 4]))
+
+      await harness.command('AT+SBDWB=4')
+      await harness.send(message.subarray(0, 2), 100)
+      await harness.send(message.subarray(2), 100)
+
+      assert.deepStrictEqual(harness.readLines(), ['0'])
+    })
+
+    it('rejects a message with an incorrect checksum', async () => {
+      await harness.command('AT+SBDWB=2')
+      await harness.send(Buffer.from([1, 2, 0, 0]), 100)
+
+      assert.deepStrictEqual(harness.readLines(), ['2'])
+    })
+
+    it('times out after 60 seconds of the virtual clock', async () => {
+      await harness.command('AT+SBDWB=10')
+      await harness.send(Buffer.from([1, 2, 3]), 59 * 1000)
+      assert.strictEqual(harness.read(), '')
+
+      await harness.clock.advance(1000)
+      assert.deepStrictEqual(harness.readLines(), ['1'])
+
+      assert.deepStrictEqual(await harness.command('AT'), ['OK'])
+    })
+  })
+
+  describe('AT+SBDWT', () => {
+    it('writes the text message given with the command', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDWT=hello;world'), ['OK'])
+      assert.strictEqual(harness.emulator.moBuffer.subarray(0, 11).toString(), 'hello;world')
+    })
+
+    it('prompts for the text message with READY', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDWT'), ['READY'])
+      assert.deepStrictEqual(await harness.command('hello'), ['0'])
+      assert.strictEqual(harness.emulator.moBuffer.subarray(0, 5).toString(), 'hello')
+
+      assert.deepStrictEqual(await harness.command('AT'), ['OK'])
+    })
+
+    it('times out after 60 seconds without a text message', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDWT'), ['READY'])
+
+      await harness.clock.advance(58 * 1000)
+      assert.strictEqual(harness.read(), '')
+
+      await harness.clock.advance(2000)
+      assert.deepStrictEqual(harness.readLines(), ['1'])
+
+      assert.deepStrictEqual(await harness.command('AT'), ['OK'])
+    })
+  })
+
+  describe('device profiles', () => {
+    it('reports the identification of the profile', async () => {
+      const legacy = new Harness({ profile: createDeviceProfile('9603', { name: 'legacy-9603', softwareRevisionLevel: 'TA19002' }) })
+
+      try {
+        assert.deepStrictEqual(await legacy.command('ATI3'), ['TA19002', 'OK'])
+      } finally {
+        await legacy.close()
+      }
+    })
+
+    it('rejects the commands the model does not support', async () => {
+      const transceiver = new Harness({ profile: '9522B' })
+
+      try {
+        assert.deepStrictEqual(await transceiver.command('AT*R1'), ['ERROR'])
+        assert.deepStrictEqual(await transceiver.command('AT+CSQF', 5000), ['+CSQF:5', 'OK'])
+      } finally {
+        await transceiver.close()
+      }
+    })
+
+    it('rejects AT commands on the RockBLOCK 9704', async () => {
+      const rockblock = new Harness({ profile: 'rockblock-9704' })
+
+      try {
+        await rockblock.send('AT+SBDIX\r')
+        assert.deepStrictEqual(rockblock.readLines(), ['402  {}'])
+      } finally {
+        await rockblock.close()
+      }
+    })
+  })
+
+  describe('JSPR', () => {
+    it('sends and receives messages over JSPR on the RockBLOCK 9704', async () => {
+      const rockblock = new Harness({ profile: 'rockblock-9704' })
+      const sent = new Promise<SBDMessage>((resolve) => rockblock.emulator.once('sbd-message', resolve))
+
+      /** Sends a request, returning the lines written in response */
+      const request = async (line: string, ms = 1000) => {
+        await rockblock.send(line + '\r', ms)
+        return rockblock.readLines()
+      }
+
+      try {
+        await request('PUT apiVersion {"active_version":{"major":1,"minor":6,"patch":0}}')
+        await request('PUT operationalState {"state":"active"}')
+        await request('PUT messageOriginate {"topic_id":244,"message_length":2}')
+
+        const status = await request(`PUT messageOriginateSegment {"topic_id":244,"message_id":1,"segment_length":2,"segment_start":0,"data":"${Buffer.from('hi').toString('base64')}"}`, 60 * 1000)
+        assert.ok(status.includes('299 messageOriginateStatus {"topic_id":244,"message_id":1,"final_mo_status":"mo_ack_received"}'))
+        assert.strictEqual((await sent).data, '6869')
+
+        rockblock.emulator.addRemoteMTMessage(Buffer.from('yo'))
+        await rockblock.clock.advance(60 * 1000)
+
+        const terminated = rockblock.readLines().find((line) => line.startsWith('299 messageTerminateSegment'))
+        assert.ok(terminated)
+        assert.strictEqual(JSON.parse(terminated.slice(terminated.indexOf('{'))).data, Buffer.from('yo').toString('base64'))
+      } finally {
+        await rockblock.close()
+      }
+    })
+  })
+
+  describe('SBD sessions', () => {
+    it('sends the MO buffer and receives the next MT message with AT+SBDIX', async () => {
+      const sent: Buffer[] = []
+      harness.emulator.on('sbd-message', (message) => sent.push(Buffer.from(message.data, 'hex')))
+
+      await harness.command('AT+SBDWT=hello')
+      harness.emulator.addRemoteMTMessage(Buffer.from('world'))
+
+      const [status, result] = await harness.command('AT+SBDIX', 60 * 1000)
+      assert.match(status, /^\+SBDIX: 0, 1, 1, \d+, 5, 0$/)
+      assert.strictEqual(result, 'OK')
+      assert.deepStrictEqual(sent, [Buffer.from('hello')])
+
+      assert.deepStrictEqual(await harness.command('AT+SBDRT'), ['+SBDRT:', 'world', 'OK'])
+    })
+
+    it('reads the MT buffer with its length and checksum with AT+SBDRB', async () => {
+      harness.emulator.addRemoteMTMessage(Buffer.from([0x01, 0x02]))
+      await harness.command('AT+SBDIX', 60 * 1000)
+
+      await harness.send('ATE0\r')
+      harness.read()
+      await harness.send('AT+SBDRB\r')
+
+      assert.deepStrictEqual(harness.readBuffer().subarray(0, 6), Buffer.from([0x00, 0x02, 0x01, 0x02, 0x00, 0x03]))
+    })
+  })
+
+  describe('legacy sessions and registration', () => {
+    it('reports whether a message was sent with AT+SBDI', async () => {
+      const [empty] = await harness.command('AT+SBDI', 60 * 1000)
+      assert.match(empty, /^\+SBDI: 0, 0, 0, \d+, 0, 0$/)
+
+      await harness.command('AT+SBDWT=hello')
+      const [sent] = await harness.command('AT+SBDI', 60 * 1000)
+      assert.match(sent, /^\+SBDI: 1, 1, 0, \d+, 0, 0$/)
+    })
+
+    it('registers and detaches with AT+SBDREG and AT+SBDDET', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDREG?'), ['+SBDREG:1', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDREG', 60 * 1000), ['+SBDREG:2,0', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDREG?'), ['+SBDREG:2', 'OK'])
+
+      assert.deepStrictEqual(await harness.command('AT+SBDDET', 60 * 1000), ['+SBDDET:0,0', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDREG?'), ['+SBDREG:0', 'OK'])
+    })
+
+    it('reports a denied registration', async () => {
+      harness.emulator.registrationDenied = true
+
+      assert.deepStrictEqual(await harness.command('AT+SBDREG', 60 * 1000), ['+SBDREG:3,15', 'OK'])
+    })
+
+    it('fails to register or detach while the radio is off', async () => {
+      await harness.command('AT*R0')
+
+      assert.deepStrictEqual(await harness.command('AT+SBDREG', 60 * 1000), ['+SBDREG:1,34', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDDET', 60 * 1000), ['+SBDDET:1,34', 'OK'])
+    })
+  })
+
+  describe('SBD status', () => {
+    it('reports the buffers and sequence numbers with AT+SBDS and AT+SBDSX', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDS'), ['+SBDS: 0, 0, 0, 0', 'OK'])
+
+      await harness.command('AT+SBDWT=hello')
+      harness.emulator.addRemoteMTMessage(Buffer.from('world'))
+
+      assert.deepStrictEqual(await harness.command('AT+SBDS'), ['+SBDS: 1, 0, 0, 0', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDSX'), ['+SBDSX: 1, 0, 0, 0, 0, 1', 'OK'])
+    })
+
+    it('copies the MO buffer to the MT buffer with AT+SBDTC', async () => {
+      await harness.command('AT+SBDWT=loopback')
+
+      assert.deepStrictEqual(await harness.command('AT+SBDTC'), ['SBDTC: Outbound SBD Copied to Inbound SBD: size = 8', 'OK'])
+      assert.strictEqual(trimBuffer(harness.emulator.mtBuffer).toString(), 'loopback')
+    })
+
+    it('clears the MOMSN with AT+SBDC', async () => {
+      await harness.command('AT+SBDWT=hello')
+      await harness.command('AT+SBDIX', 60 * 1000)
+      assert.strictEqual(harness.emulator.moSequenceNo, 1)
+
+      assert.deepStrictEqual(await harness.command('AT+SBDC'), ['0', 'OK'])
+      assert.strictEqual(harness.emulator.moSequenceNo, 0)
+    })
+
+    it('sets and reads the session timeout with AT+SBDST', async () => {
+      assert.deepStrictEqual(await harness.command('AT+SBDST?'), ['+SBDST:0', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDST=30'), ['OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDST?'), ['+SBDST:30', 'OK'])
+      assert.deepStrictEqual(await harness.command('AT+SBDST=-1'), ['ERROR'])
+    })
+  })
+
+  describe('deterministic mode', () => {
+    /** Runs a session on a new seeded emulator, returning the MO message sent */
+    async function sessionWithSeed (seed: number) {
+      const seeded = new Harness({ seed })
+      const sent = new Promise<SBDMessage>((resolve) => seeded.emulator.once('sbd-message', resolve))
+
+      try {
+        await seeded.command('AT+SBDWT=hello')
+        await seeded.command('AT+SBDIX', 60 * 1000)
+        return await sent
+      } finally {
+        await seeded.close()
+      }
+    }
+
+    it('sends identical messages from emulators with the same seed', async () => {
+      const first = await sessionWithSeed(7)
+      const second = await sessionWithSeed(7)
+
+      assert.deepStrictEqual(second, first)
+      // the session took place on the virtual clock
+      assert.match(first.transmit_time, /^24-01-01 00:00:\d\d$/)
+    })
+
+    it('reports a different location for a different seed', async () => {
+      const first = await sessionWithSeed(7)
+      const second = await sessionWithSeed(8)
+
+      assert.notDeepStrictEqual([second.iridium_latitude, second.iridium_longitude], [first.iridium_latitude, first.iridium_longitude])
+    })
+  })
+
+  describe('location', () => {
+    it('reports the position of a device moving along a track', async () => {
+      const track = new TrackLocationProvider({
+        points: [{ latitude: 0, longitude: 0, time: 0 }, { latitude: 0, longitude: 10, time: 60 * 60 * 1000 }]
+      })
+      const moving = new Harness({ location: track })
+      const sent: SBDMessage[] = []
+      moving.emulator.on('sbd-message', (message) => sent.push(message))
+
+      try {
+        await moving.command('AT+SBDWT=start')
+        await moving.command('AT+SBDIX', 60 * 1000)
+        await moving.clock.advance(30 * 60 * 1000)
+        await moving.command('AT+SBDWT=middle')
+        await moving.command('AT+SBDIX', 60 * 1000)
+      } finally {
+        await moving.close()
+      }
+
+      assert.strictEqual(sent.length, 2)
+      sent.forEach((message, i) => {
+        const reported = { latitude: message.iridium_latitude, longitude: message.iridium_longitude }
+        // the device is roughly 0 and 5 degrees east along the track
+        assert.ok(distance(reported, { latitude: 0, longitude: i * 5 }) / 1000 < 120)
+        assert.ok(message.iridium_cep > 0)
+      })
+    })
+  })
+
+  describe('session faults', () => {
+    it('reports the injected MO status without sending the message', async () => {
+      const sent: unknown[] = []
+      harness.emulator.on('sbd-message', (message) => sent.push(message))
+      harness.emulator.faults.injectSessionFault({ moStatus: 18 })
+
+      await harness.command('AT+SBDWT=hello')
+      const [status] = await harness.command('AT+SBDIX', 60 * 1000)
+
+      assert.match(status, /^\+SBDIX: 18, 0, 2, /)
+      assert.strictEqual(sent.length, 0)
+
+      // faults are consumed by a single session
+      const [next] = await harness.command('AT+SBDIX', 60 * 1000)
+      assert.match(next, /^\+SBDIX: 0, 1, 0, /)
+    })
+
+    it('times the session out when the injected delay exceeds AT+SBDST', async () => {
+      harness.emulator.faults.injectSessionFault({ delay: 120 * 1000 })
+      await harness.command('AT+SBDST=30')
+
+      const [status] = await harness.command('AT+SBDIX', 60 * 1000)
+      assert.match(status, /^\+SBDIX: 17, /)
+    })
+
+    it('never responds when the response is dropped', async () => {
+      harness.emulator.faults.injectSessionFault({ dropResponse: true })
+
+      assert.deepStrictEqual(await harness.command('AT+SBDIX', 120 * 1000), [])
+    })
+
+    it('corrupts or truncates the next AT+SBDRB transfer', async () => {
+      harness.emulator.addRemoteMTMessage(Buffer.from([0x01, 0x02]))
+      await harness.command('ATE0')
+      await harness.command('AT+SBDIX', 60 * 1000)
+
+      harness.emulator.faults.injectReadBinaryFault({ corruptChecksum: true })
+      harness.emulator.faults.injectReadBinaryFault({ truncate: 3 })
+
+      await harness.send('AT+SBDRB\r')
+      assert.deepStrictEqual(harness.readBuffer(), Buffer.from([0x00, 0x02, 0x01, 0x02, 0x00, 0xfc]))
+
+      await harness.send('AT+SBDRB\r')
+      assert.deepStrictEqual(harness.readBuffer(), Buffer.from([0x00, 0x02, 0x01]))
+
+      await harness.send('AT+SBDRB\r')
+      assert.deepStrictEqual(harness.readBuffer(), Buffer.from([0x00, 0x02, 0x01, 0x02, 0x00, 0x03]))
+    })
+
+    it('discards the pending faults when cleared', async () => {
+      harness.emulator.faults.injectSessionFault({ moStatus: 35 })
+      harness.emulator.faults.clear()
+
+      const [status] = await harness.command('AT+SBDIX', 60 * 1000)
+      assert.match(status, /^\+SBDIX: 0, /)
+    })
+
+    it('keeps a queued fault for the next session while the radio is off', async () => {
+      harness.emulator.faults.injectSessionFault({ moStatus: 35 })
+
+      await harness.command('AT*R0')
+      const [off] = await harness.command('AT+SBDIX', 60 * 1000)
+      assert.match(off, /^\+SBDIX: 34,/)
+      assert.strictEqual(harness.emulator.faults.sessionFaults.length, 1)
+
+      await harness.command('AT*R1')
+      const [on] = await harness.command('AT+SBDIX', 60 * 1000)
+      assert.match(on, /^\+SBDIX: 35,/)
+      assert.strictEqual(harness.emulator.faults.sessionFaults.length, 0)
+    })
+  })
+
+  describe('control lines', () => {
+    it('raises RI on a ring alert until the alert is answered', async () => {
+      await harness.command('AT+SBDMTA=1')
+      harness.emulator.addRemoteMTMessage(Buffer.from('hi'))
+      await harness.clock.advance(0)
+
+      assert.strictEqual(harness.transport.dte.getLines().ri, true)
+      assert.ok(harness.readLines().includes('SBDRING'))
+
+      await harness.command('AT+SBDIXA', 60 * 1000)
+      assert.strictEqual(harness.transport.dte.getLines().ri, false)
+    })
+
+    it('sleeps while DTR is off', async () => {
+      harness.transport.dte.setLines({ dtr: false })
+
+      assert.strictEqual(harness.emulator.asleep, true)
+      assert.strictEqual(harness.transport.dte.getLines().cts, false)
+      assert.deepStrictEqual(await harness.command('AT'), [])
+
+      harness.transport.dte.setLines({ dtr: true })
+
+      assert.strictEqual(harness.transport.dte.getLines().cts, true)
+      assert.deepStrictEqual(await harness.command('AT'), ['OK'])
+    })
+
+    it('ignores DTR under AT&D0', async () => {
+      await harness.command('AT&D0')
+      harness.transport.dte.setLines({ dtr: false })
+
+      assert.strictEqual(harness.emulator.asleep, false)
+      assert.deepStrictEqual(await harness.command('AT'), ['OK'])
+    })
+
+    it('restores the default stored profile when DTR drops under AT&D3', async () => {
+      await harness.command('ATE0&W0')
+      await harness.command('ATE1&D3')
+
+      harness.transport.dte.setLines({ dtr: false })
+      harness.transport.dte.setLines({ dtr: true })
+
+      assert.strictEqual(harness.emulator.echoEnabled, false)
+    })
+
+    it('holds output while RTS is off under AT&K3', async () => {
+      await harness.command('AT&K3')
+      harness.transport.dte.setLines({ rts: false })
+
+      await harness.send('AT\r')
+      assert.strictEqual(harness.read(), '')
+
+      harness.transport.dte.setLines({ rts: true })
+      assert.deepStrictEqual(harness.readLines(), ['AT', 'OK'])
+    })
+
+    it('signals when the network becomes available', async () => {
+      const trace = `timestamp,bars,service
+2024-05-01T10:00:00Z,3,1
+2024-05-01T10:00:30Z,0,0
+2024-05-01T10:01:00Z,4,1
+`
+      const traced = new Harness({ signalModel: TraceSignalModel.fromCsv(trace) })
+      const changes: boolean[] = []
+      traced.emulator.on('network-available', (available) => changes.push(available))
+
+      try {
+        // the network is available from the first sample
+        assert.strictEqual(traced.emulator.serviceAvailable, true)
+
+        await traced.clock.advance(90 * 1000)
+        assert.deepStrictEqual(changes, [false, true])
+      } finally {
+        await traced.close()
+      }
+    })
+  })
+
+  describe('device lock', () => {
+    const UNLOCK_KEY = '0123456789abcdef'
+
+    let locked: Harness
+
+    beforeEach(async () => {
+      locked = new Harness({ unlockKey: UNLOCK_KEY })
+      locked.emulator.lockDevice()
+
+      // the lock takes effect in the next session with the gateway
+      assert.deepStrictEqual(await locked.command('AT+CULK?'), ['+CULK:0', 'OK'])
+      const [status] = await locked.command('AT+SBDIX', 60 * 1000)
+      assert.match(status, /^\+SBDIX: 16, /)
+    })
+
+    afterEach(async () => {
+      await locked.close()
+    })
+
+    it('refuses sessions and registration while locked', async () => {
+      assert.deepStrictEqual(await locked.command('AT+CULK?'), ['+CULK:1', 'OK'])
+      assert.match((await locked.command('AT+SBDIX', 60 * 1000))[0], /^\+SBDIX: 16, /)
+      assert.deepStrictEqual(await locked.command('AT+SBDREG', 60 * 1000), ['+SBDREG:1,16', 'OK'])
+    })
+
+    it('unlocks with the unlock key', async () => {
+      assert.deepStrictEqual(await locked.command('AT+CULK=ffffffffffffffff'), ['+CULK:1', 'OK'])
+      assert.deepStrictEqual(await locked.command(`AT+CULK=${UNLOCK_KEY.toUpperCase()}`), ['+CULK:0', 'OK'])
+      assert.match((await locked.command('AT+SBDIX', 60 * 1000))[0], /^\+SBDIX: 0, /)
+    })
+
+    it('rejects a malformed unlock key', async () => {
+      assert.deepStrictEqual(await locked.command('AT+CULK=1234'), ['ERROR'])
+      assert.throws(() => new Harness({ unlockKey: '1234' }), TypeError)
+    })
+
+    it('cannot be unlocked by the DTE when permanently locked', async () => {
+      locked.emulator.unlockDevice()
+      locked.emulator.lockDevice(true)
+      await locked.command('AT+SBDIX', 60 * 1000)
+
+      assert.deepStrictEqual(await locked.command(`AT+CULK=${UNLOCK_KEY}`), ['+CULK:2', 'OK'])
+
+      locked.emulator.unlockDevice()
+      assert.deepStrictEqual(await locked.command('AT+CULK?'), ['+CULK:0', 'OK'])
+    })
+  })
+
+  describe('AT-MSGEO', () => {
+    it('reports zeros before the first session', async () => {
+      assert.deepStrictEqual(await harness.command('AT-MSGEO'), ['-MSGEO: 0,0,0,00000000', 'OK'])
+    })
+
+    it('reports the position and time of the last successful session', async () => {
+      const sent = new Promise<SBDMessage>((resolve) => harness.emulator.once('sbd-message', resolve))
+      await harness.command('AT+SBDWT=hello')
+      await harness.command('AT+SBDIX', 60 * 1000)
+
+      const message = await sent
+      const { x, y, z } = ecefPosition({ latitude: message.iridium_latitude, longitude: message.iridium_longitude }, 4)
+      const [response] = await harness.command('AT-MSGEO')
+
+      assert.ok(response.startsWith(`-MSGEO: ${x},${y},${z},`))
+      assert.ok(!response.endsWith(',00000000'))
+    })
+
+    it('keeps the position of the last successful session when a session fails', async () => {
+      await harness.command('AT+SBDIX', 60 * 1000)
+      const [reported] = await harness.command('AT-MSGEO')
+
+      harness.emulator.faults.injectSessionFault({ moStatus: 18 })
+      await harness.command('AT+SBDIX', 60 * 1000)
+
+      assert.deepStrictEqual(await harness.command('AT-MSGEO'), [reported, 'OK'])
+    })
+  })
+
+  describe('system time', () => {
+    it('reports Iridium system time with AT-MSSTM', async () => {
+      const start = harness.clock.now()
+      const [response] = await harness.command('AT-MSSTM')
+      const systemTime = parseInt(response.replace('-MSSTM: ', ''), 16)
+
+      assert.match(response, /^-MSSTM: [0-9a-f]{8}$/)
+      // the command is answered within the second the clock was advanced by
+      assert.ok(systemTime >= iridiumSystemTime(start) && systemTime <= iridiumSystemTime(start + 1000))
+    })
+
+    it('reports no network service without signal', async () => {
+      const isolated = new Harness({ signalQualityRating: SignalQualityRating.NONE })
+
+      try {
+        assert.deepStrictEqual(await isolated.command('AT-MSSTM'), ['-MSSTM: no network service', 'OK'])
+        assert.deepStrictEqual(await isolated.command('AT+CCLK?'), ['ERROR'])
+      } finally {
+        await isolated.close()
+      }
+    })
+
+    it('sets the real time clock from the skewed network clock', async () => {
+      const skewed = new Harness({ networkClock: { skew: 90 * 60 * 1000 } })
+
+      try {
+        const [response, result] = await skewed.command('AT+CCLK?')
+
+        assert.match(response, /^\+CCLK:24\/01\/01,01:30:0\d$/)
+        assert.strictEqual(result, 'OK')
+      } finally {
+        await skewed.close()
+      }
+    })
+
+    it('reports the time since the epoch of a frozen network clock', async () => {
+      const frozen = new Harness({ networkClock: { frozenAt: IRIDIUM_EPOCH } })
+
+      try {
+        assert.deepStrictEqual(await frozen.command('AT-MSSTM'), ['-MSSTM: 00000000', 'OK'])
+      } finally {
+        await frozen.close()
+      }
+    })
+  })
+
+  describe('strict mode', () => {
+    let strict: Harness
+    let violations: ProtocolViolation[]
+
+    beforeEach(() => {
+      strict = new Harness({ strict: true })
+      violations = []
+      strict.emulator.on('violation', (violation) => violations.push(violation))
+    })
+
+    afterEach(async () => {
+      await strict.close()
+    })
+
+    it('accepts a well behaved session without violations', async () => {
+      await strict.command('AT+SBDWT=hello')
+      assert.deepStrictEqual((await strict.command('AT+SBDIX', 60 * 1000)).pop(), 'OK')
+
+      assert.deepStrictEqual(violations, [])
+    })
+
+    it('reports command lines terminated with <LF>', async () => {
+      await strict.send('AT\r\n')
+
+      assert.deepStrictEqual(violations.map((violation) => violation.type), [ProtocolViolationType.LINE_TERMINATOR])
+      assert.strictEqual(violations[0].message, 'Command line terminated with <CR><LF>, expected <CR>')
+    })
+
+    it('discards commands sent during a session', async () => {
+      await strict.send('AT+SBDIX\r')
+      await strict.send('AT+CGSN\r')
+      await strict.clock.advance(60 * 1000)
+
+      assert.strictEqual(violations.length, 1)
+      assert.strictEqual(violations[0].type, ProtocolViolationType.COMMAND_DURING_SESSION)
+      assert.strictEqual(violations[0].command, 'AT+SBDIX')
+      assert.strictEqual(violations[0].received, 'AT+CGSN\r')
+      assert.ok(!strict.read().includes('300534'))
+    })
+
+    it('reports binary data sent before READY', async () => {
+      await strict.send(Buffer.concat([Buffer.from('AT+SBDWB=1\r'), Buffer.from([0x41, 0x00, 0x41])]))
+
+      assert.strictEqual(violations[0].type, ProtocolViolationType.BINARY_BEFORE_READY)
+      assert.strictEqual(violations[0].received, '410041')
+    })
+
+    it('reports a binary transfer not completed in time', async () => {
+      await strict.command('AT+SBDWB=5')
+      await strict.send('ab', 60 * 1000)
+
+      assert.deepStrictEqual(violations.map((violation) => violation.type), [ProtocolViolationType.BINARY_TIMEOUT])
+      assert.strictEqual(violations[0].received, '6162')
+    })
+
+    it('reports a ring alert answered with AT+SBDIX', async () => {
+      await strict.command('AT+SBDMTA=1')
+      strict.emulator.addRemoteMTMessage(Buffer.from('hi'))
+      await strict.command('AT+SBDIX', 60 * 1000)
+
+      assert.deepStrictEqual(violations.map((violation) => violation.type), [ProtocolViolationType.RING_ALERT_NOT_ANSWERED])
+    })
+  })
+
+  describe('state file', () => {
+    let directory: string
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'iridium-emulator-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('keeps the sequence numbers, buffers and MT queue across restarts', async () => {
+      const stateFile = path.join(directory, 'state.json')
+      const first = new Harness({ stateFile })
+
+      try {
+        await first.command('AT+SBDWT=hello')
+        await first.command('AT+SBDIX', 60 * 1000)
+        first.emulator.addRemoteMTMessage(Buffer.from('queued'))
+      } finally {
+        await first.close()
+      }
+
+      const restored = new Harness({ stateFile })
+
+      try {
+        assert.strictEqual(restored.emulator.moSequenceNo, first.emulator.moSequenceNo)
+        assert.strictEqual(trimBuffer(restored.emulator.moBuffer).toString(), 'hello')
+        assert.deepStrictEqual(restored.emulator.mtQueue, [Buffer.from('queued')])
+
+        // the next message continues the sequence
+        await restored.command('AT+SBDIX', 60 * 1000)
+        assert.strictEqual(restored.emulator.moSequenceNo, first.emulator.moSequenceNo + 1)
+      } finally {
+        await restored.close()
+      }
+    })
+
+    it('activates the designated stored profile at power up', async () => {
+      const stateFile = path.join(directory, 'state.json')
+      const first = new Harness({ stateFile })
+
+      try {
+        await first.command('ATE0V0&W1&Y1')
+      } finally {
+        await first.close()
+      }
+
+      const restored = new Harness({ stateFile })
+
+      try {
+        assert.strictEqual(restored.emulator.echoEnabled, false)
+        assert.strictEqual(restored.emulator.verboseMode, false)
+      } finally {
+        await restored.close()
+      }
+    })
+
+    it('stops responding once flushed with AT*F', async () => {
+      assert.deepStrictEqual(await harness.command('AT*F'), [])
+      assert.ok(harness.emulator.readyForShutdown)
+      assert.deepStrictEqual(await harness.command('AT'), [])
+    })
+
+    it('starts from the factory state when the state file is malformed', async () => {
+      const stateFile = path.join(directory, 'state.json')
+      fs.writeFileSync(stateFile, '{"moSequenceNo": 4, "mtSeq')
+
+      const restored = new Harness({ stateFile })
+      const errors: string[] = []
+      restored.emulator.on('log', (event) => event.level === LogLevel.ERROR && errors.push(event.message))
+
+      try {
+        await restored.clock.advance(0)
+
+        assert.strictEqual(restored.emulator.moSequenceNo, 0)
+        assert.strictEqual(errors.length, 1)
+        assert.match(errors[0], /Unable to restore state/)
+        assert.deepStrictEqual(await restored.command('AT'), ['OK'])
+      } finally {
+        await restored.close()
+      }
+    })
+  })
+})
@@ -0,0 +1,2514 @@
+/* eslint-disable no-unused-vars */
+import fs from 'fs'
+import jwt from 'jsonwebtoken'
+import { generateKeyPair } from 'crypto'
+import { TypedEmitter } from 'tiny-typed-emitter'
+import { ReadlineParser } from '@serialport/parser-readline'
+
+import { applyBackspace, BinaryMessageParser, CommandLineParser, CommandRegistry, isRepeatCommand, parseCommandLine, PROFILE_S_REGISTERS, ResultCode, S3, S4, S5, S_REGISTER_COUNT, SRegisters } from './at'
+import { inputViolationType, ProtocolViolation, ProtocolViolationType } from './conformance'
+import { DirectIpGateway } from './directip'
+import { FaultInjector } from './faults'
+import { JsprMOStatus, JsprSession } from './jspr'
+import { TranscriptMode, TranscriptRecorder } from './transcript'
+import { formatIridiumSystemTime, NetworkClock } from './system-time'
+import { factoryConfiguration, ModemConfiguration, ModemState, readModemState, writeModemState } from './state'
+import { DEVICE_PROFILES, DeviceProfile, DeviceProfileName, isCommandSupported } from './profiles'
+import { CallbackLocationProvider, ecefPosition, FixedLocationProvider, IridiumPosition, iridiumPosition, LocationProvider, Position } from './location'
+import { RatingSignalModel, SignalModel, SignalQuality, SignalQualityRating } from './signal'
+import { RockBlockMTServer, WebhookDelivery, WebhookDeliveryAttempt, WebhookFormat } from './rockblock'
+import { DteLines, IridiumTransport, ModemLines, PtyTransport, SerialTransport, TcpTransport, TcpTransportMode } from './transports'
+import { Clock, systemClock } from './clock'
+import { calculateChecksum, createRandom, delay, randomInterval, trimBuffer } from './utils'
+
+const MILLISECOND = 1
+const SECOND = MILLISECOND * 1000
+const MINUTE = SECOND * 60
+const HOUR = MINUTE * 60
+
+export enum RegistrationStatus {
+  DETACHED,
+  NOT_REGISTERED,
+  REGISTERED,
+  DENIED
+}
+
+export enum AutomaticRegistrationMode {
+  DISABLED,
+  AUTOMATIC,
+  ASK
+}
+
+export enum LockStatus {
+  UNLOCKED,
+  LOCKED,
+  PERMANENTLY_LOCKED
+}
+
+type SessionResult = {
+  moStatus: number
+  mtStatus: number
+  mtLength: number
+  dropped: boolean
+}
+
+// snake case to match rock7 service provider
+export type SBDMessage = {
+  momsn: number
+  data: string
+  serial: number
+  'iridium_latitude': number
+  'iridium_longitude': number
+  'iridium_cep': number
+  imei: string
+  'device_type': string
+  'transmit_time': string
+  JWT: string
+}
+
+export type JWTSignerDetails = {
+  publicKey: string
+  privateKey: string
+  passphrase: string
+}
+
+export enum LogLevel {
+  DEBUG = 'DEBUG',
+  INFO = 'INFO',
+  WARN = 'WARN',
+  ERROR = 'ERROR',
+  CRITICAL = 'CRITICAL'
+}
+
+export type LogEvent = {
+  level: LogLevel
+  message: string
+  datetime: Date
+  timeSinceLast: string
+}
+
+export type PtyDetails = {
+  path: string
+  link: string | null
+}
+
+export type IridiumEmulatorOptions = {
+  portPath?: string
+  baudRate?: number
+  tcpPort?: number
+  tcpMode?: TcpTransportMode
+  pty?: boolean | { link?: string }
+  transport?: IridiumTransport
+  signalQualityRating: SignalQualityRating
+  signalModel?: SignalModel
+  profile?: DeviceProfileName | DeviceProfile
+  imei?: string
+  rockblockSerial?: number
+  serialNumber?: string
+  deviceModel?: string
+  softwareRevisionLevel?: string
+  location?: Position | LocationProvider | ((time: number) => Position)
+  rockblockMTServer?: { port: number, host?: string, username: string, password: string }
+  webhooks?: { urls: string[], format?: WebhookFormat, maxAttempts?: number, backoff?: number, timeout?: number }
+  directIp?: { mo?: { host: string, port: number }, mt?: { port: number, host?: string } }
+  seed?: number
+  clock?: Clock
+  /** Detect and report DTE violations of the ISU AT Command Reference */
+  strict?: boolean
+  /** Path of the transcript file, or the recorder, to record the serial traffic to */
+  transcript?: string | TranscriptRecorder
+  /** Path of the file the non-volatile state of the modem is kept in across restarts */
+  stateFile?: string
+  /** The 16 hex digit key which unlocks the device with AT+CULK */
+  unlockKey?: string
+  /** Skew, in milliseconds, or frozen time of the Iridium network clock */
+  networkClock?: { skew?: number, frozenAt?: number | Date }
+  /** Path to, or contents of, the PEM encoded private key used to sign JWTs */
+  jwtSignerKey?: string
+  jwtSignerKeyPassphrase?: string
+}
+
+export interface IridiumEmulatorInterface {
+  'log': (event: LogEvent) => void
+  'sbd-message': (message: SBDMessage) => void
+  'signer-key-generated': (details: JWTSignerDetails) => void
+  'pty-created': (details: PtyDetails) => void
+  'violation': (violation: ProtocolViolation) => void
+  'network-available': (available: boolean) => void
+  'webhook-delivered': (attempt: WebhookDeliveryAttempt) => void
+  'webhook-failed': (attempt: WebhookDeliveryAttempt) => void
+}
+
+export class IridiumEmulator extends TypedEmitter<IridiumEmulatorInterface> {
+  /** The connection to the DTE */
+  #transport: IridiumTransport
+
+  get transport () {
+    return this.#transport
+  }
+
+  /** The byte stream to and from the DTE */
+  get port () {
+    return this.#transport.stream
+  }
+
+  /** The path of the pseudo-terminal the DTE should connect to, when using a pty transport */
+  get ptyPath () {
+    return this.#transport instanceof PtyTransport ? this.#transport.path : null
+  }
+
+  /** Indicates if the inbound command should be echo'd back on the port */
+  #echoEnabled = true
+
+  get echoEnabled () {
+    return this.#echoEnabled
+  }
+
+  /** Indicates if result codes should be suppressed */
+  #quietMode = false
+
+  get quietMode () {
+    return this.#quietMode
+  }
+
+  /** Indicates if result codes are sent as words (V1) rather than numbers (V0) */
+  #verboseMode = true
+
+  get verboseMode () {
+    return this.#verboseMode
+  }
+
+  /** Indicates if RTS/CTS flow control is enabled (&K3) */
+  #flowControl = false
+
+  get flowControl () {
+    return this.#flowControl
+  }
+
+  /** Output held while the DTE has RTS off under flow control */
+  #heldOutput: { data: string | Buffer, mode: TranscriptMode }[] = []
+
+  /** How the ISU responds to the DTE dropping DTR (&D) */
+  #dtrMode = 2
+
+  get dtrMode () {
+    return this.#dtrMode
+  }
+
+  /** Indicates if the DTE has put the ISU to sleep by dropping DTR */
+  #asleep = false
+
+  get asleep () {
+    return this.#asleep
+  }
+
+  /** The S-registers of the ISU */
+  #registers = new SRegisters()
+
+  get registers () {
+    return this.#registers
+  }
+
+  /** Indicates that the device is no longer responding to commands and is ready to be powered down */
+  #readyForShutdown = false
+
+  get readyForShutdown () {
+    return this.#readyForShutdown
+  }
+
+  /** Indicates if radio activty is enabled (must be enabled for SDBI[XA] sessions) */
+  #radioActivityEnabled = true
+
+  get radioActivityEnabled () {
+    return this.#radioActivityEnabled
+  }
+
+  /** Indicates if ring alerts is enabled on the emulator */
+  #ringAlertsEnabled = false
+
+  get ringAlertsEnabled () {
+    return this.#ringAlertsEnabled
+  }
+
+  /** Indicates if there is an active ring alert waiting to be answered */
+  #ringAlertActive = false
+
+  get ringAlertActive () {
+    return this.#ringAlertActive
+  }
+
+  /** The quality of signal the emulator should mock */
+  #signalQualityRating: SignalQualityRating = SignalQualityRating.OK
+
+  get signalQualityRating () {
+    return this.#signalQualityRating
+  }
+
+  /** The model that determines the signal quality over time */
+  #signalModel: SignalModel
+
+  get signalModel () {
+    return this.#signalModel
+  }
+
+  /** The current signal quality of the emulator */
+  #currentSignalQuality: SignalQuality = SignalQuality.ONE
+
+  get currentSignalQuality () {
+    return this.#currentSignalQuality
+  }
+
+  /** Indicates if network service is currently available to the emulator */
+  #serviceAvailable = false
+
+  get serviceAvailable () {
+    return this.#serviceAvailable
+  }
+
+  /** Indicates if signal quality indicator is enabled on the emulator */
+  #signalQualityIndicator = false
+
+  get signalQualityIndicator () {
+    return this.#signalQualityIndicator
+  }
+
+  /** Indicates if the service availability indicator is enabled on the emulator */
+  #serviceAvailabilityIndicator = false
+
+  get serviceAvailabilityIndicator () {
+    return this.#serviceAvailabilityIndicator
+  }
+
+  /** The current buffer for Mobile Orientated (MO) messages */
+  #moBuffer: Buffer
+
+  get moBuffer () {
+    return this.#moBuffer
+  }
+
+  /* The sequence number for Mobile Orientated (MO) messages */
+  #moSequenceNo = 0
+
+  get moSequenceNo () {
+    return this.#moSequenceNo
+  }
+
+  /** The current buffer for Mobile Terminated (MT) messages */
+  #mtBuffer: Buffer
+
+  get mtBuffer () {
+    return this.#mtBuffer
+  }
+
+  /** The remote queue of Mobile Terminated (MT) messages */
+  #mtQueue: Buffer[]
+
+  get mtQueue () {
+    return this.#mtQueue
+  }
+
+  /* The sequence number for Mobile Terminated (MT) messages */
+  #mtSequenceNo = 0
+
+  get mtSequenceNo () {
+    return this.#mtSequenceNo
+  }
+
+  /** The SBD network registration status of the emulator */
+  #registrationStatus = RegistrationStatus.NOT_REGISTERED
+
+  get registrationStatus () {
+    return this.#registrationStatus
+  }
+
+  /** Indicates if the gateway should deny SBD network registrations */
+  #registrationDenied = false
+
+  get registrationDenied () {
+    return this.#registrationDenied
+  }
+
+  set registrationDenied (denied: boolean) {
+    this.#registrationDenied = denied
+  }
+
+  /** Indicates if the device has been locked by the gateway */
+  #lockStatus = LockStatus.UNLOCKED
+
+  get lockStatus () {
+    return this.#lockStatus
+  }
+
+  /** A lock requested by the gateway, applied in the next session */
+  #pendingLock: LockStatus | null = null
+
+  /** The key which unlocks the device */
+  #unlockKey: string
+
+  /** The automatic SBD network registration mode */
+  #automaticRegistrationMode = AutomaticRegistrationMode.DISABLED
+
+  get automaticRegistrationMode () {
+    return this.#automaticRegistrationMode
+  }
+
+  /** The SBD session timeout in seconds, zero indicates no timeout */
+  #sessionTimeout = 0
+
+  get sessionTimeout () {
+    return this.#sessionTimeout
+  }
+
+  /** Indicates that incoming data is expected to be binary and appended to buffer */
+  #binaryMode = false
+
+  get binaryMode () {
+    return this.#binaryMode
+  }
+
+  /** Buffer containing the inbound binary data */
+  #binaryBuffer: Buffer | null
+
+  get binaryBuffer () {
+    return this.#binaryBuffer
+  }
+
+  /** The expected length of the inbound binary data */
+  #binaryBufferLength: number
+
+  get binaryBufferLength () {
+    return this.#binaryBufferLength
+  }
+
+  /** Timeout function to invoke when binary data is not received */
+  #binaryBufferTimeout: unknown | null
+
+  get binaryBufferTimeout () {
+    return this.#binaryBufferTimeout
+  }
+
+  /** Timeout of the text message awaited after the READY prompt of AT+SBDWT */
+  #textMessageTimeout: unknown | null = null
+
+  /** The device profile the emulator mocks */
+  #profile: DeviceProfile
+
+  get profile () {
+    return this.#profile
+  }
+
+  /* The software revision level of the module */
+  #softwareRevisionLevel: string
+
+  get softwareRevisionLevel () {
+    return this.#softwareRevisionLevel
+  }
+
+  /* The product description of the module */
+  #productDescription: string
+
+  get productDescription () {
+    return this.#productDescription
+  }
+
+  /* Model number of the module */
+  #deviceModel: string
+
+  get deviceModel () {
+    return this.#deviceModel
+  }
+
+  /* Serial number of the module */
+  #serialNumber = '10000000000000'
+
+  get serialNumber () {
+    return this.#serialNumber
+  }
+
+  /* International Mobile Equipment Identity of the module */
+  #imei: string
+
+  get imei () {
+    return this.#imei
+  }
+
+  /* RockBLOCK serial number reported with MO messages */
+  #rockblockSerial: number
+
+  get rockblockSerial () {
+    return this.#rockblockSerial
+  }
+
+  /** Provides the true position of the device over time */
+  #location: LocationProvider
+
+  get location () {
+    return this.#location
+  }
+
+  /** The true position of the device */
+  get position () {
+    return this.#location.position(this.#clock.now())
+  }
+
+  /** The position reported by the network in the last successful session, with the system time it was updated */
+  #geolocation: (IridiumPosition & { systemTime: number }) | null = null
+
+  get geolocation () {
+    return this.#geolocation
+  }
+
+  /* The hardware specification of the module */
+  #hardwareSpecification: string
+
+  get hardwareSpecification () {
+    return this.#hardwareSpecification
+  }
+
+  /** The JWT signer key which is used to sign outbound messages */
+  #jwtSignerKey: string
+
+  /** The passphrase required to unencrypt the jwtSignerKey */
+  #jwtSignerKeyPassphrase: string
+
+  /** Serial port parser to read input based on new line delimeter */
+  #commandLineParser: CommandLineParser
+
+  /** Parser framing the binary data of AT+SBDWB, while in binary mode */
+  #binaryParser: BinaryMessageParser | null = null
+
+  /** Local stand-in for the RockBLOCK MT web service */
+  #mtServer: RockBlockMTServer | null = null
+
+  get mtServer () {
+    return this.#mtServer
+  }
+
+  /** Outbound delivery of MO messages to the configured webhooks */
+  #webhooks: WebhookDelivery | null = null
+
+  get webhooks () {
+    return this.#webhooks
+  }
+
+  /** Emulated Iridium gateway for DirectIP MO/MT messages */
+  #directIp: DirectIpGateway | null = null
+
+  get directIp () {
+    return this.#directIp
+  }
+
+  /** The JSPR protocol session, when the device profile speaks JSPR */
+  #jspr: JsprSession | null = null
+
+  get jspr () {
+    return this.#jspr
+  }
+
+  /** Indicates if DTE violations of the AT command protocol are detected */
+  #strict = false
+
+  get strict () {
+    return this.#strict
+  }
+
+  /** The command line being processed, while in strict mode */
+  #commandInProgress: string | null = null
+
+  /** The command line being received, while in strict mode */
+  #commandLine = ''
+
+  /** The last byte received from the DTE, while in strict mode */
+  #lastInputByte: number | null = null
+
+  /** Records the serial traffic exchanged with the DTE */
+  #recorder: TranscriptRecorder | null = null
+
+  get recorder () {
+    return this.#recorder
+  }
+
+  /** The commands understood by the emulator */
+  #commands = new CommandRegistry()
+
+  get commands () {
+    return this.#commands
+  }
+
+  /** The last command line received, repeated by A/ */
+  #lastCommandLine = ''
+
+  /** Unsolicited result codes to write after the final result code */
+  #pendingIndications: string[] = []
+
+  /** The configuration profiles stored by AT&W */
+  #storedProfiles = [factoryConfiguration(), factoryConfiguration()]
+
+  get storedProfiles () {
+    return this.#storedProfiles
+  }
+
+  /** The stored profile restored at power up, designated by AT&Y */
+  #defaultProfile = 0
+
+  get defaultProfile () {
+    return this.#defaultProfile
+  }
+
+  /** Path of the file the non-volatile state is kept in */
+  #stateFile: string | null = null
+
+  get stateFile () {
+    return this.#stateFile
+  }
+
+  /** Faults to inject into upcoming commands */
+  #faults = new FaultInjector()
+
+  get faults () {
+    return this.#faults
+  }
+
+  /** Timeout for the next signal quality update tick */
+  #signalQualityTimeout: unknown | null = null
+
+  /** The source of time and timers for the emulator */
+  #clock: Clock = systemClock
+
+  get clock () {
+    return this.#clock
+  }
+
+  /** The time kept by the Iridium network */
+  #networkClock: NetworkClock
+
+  get networkClock () {
+    return this.#networkClock
+  }
+
+  /** Offset of the real time clock from the emulator clock, once set from Iridium system time */
+  #rtcOffset: number | null = null
+
+  /** The source of randomness for the emulator, seeded when running deterministically */
+  #random: () => number = Math.random
+
+  /** Time to wait before responding to simple commands */
+  #simpleWaitTime: number
+
+  /** Time taken to complete SBD sessions with the gateway */
+  #longWaitTime: number
+
+  constructor ({
+    portPath,
+    baudRate = 19200,
+    tcpPort,
+    tcpMode = 'raw',
+    pty,
+    transport,
+    signalQualityRating = SignalQualityRating.OK,
+    signalModel,
+    profile = '9603',
+    imei = '300534062390910',
+    rockblockSerial = 206899,
+    serialNumber,
+    deviceModel,
+    softwareRevisionLevel,
+    location = { latitude: 50.2563, longitude: 82.2532 },
+    rockblockMTServer,
+    webhooks,
+    directIp,
+    seed,
+    clock,
+    strict = false,
+    transcript,
+    stateFile,
+    networkClock = {},
+    unlockKey = '0000000000000000',
+    jwtSignerKey,
+    jwtSignerKeyPassphrase
+  }: IridiumEmulatorOptions) {
+    super()
+
+    if (clock) this.#clock = clock
+    if (seed !== undefined) this.#random = createRandom(seed)
+
+    this.#networkClock = new NetworkClock({ ...networkClock, clock: this.#clock })
+
+    if (!/^[0-9a-f]{16}$/i.test(unlockKey)) {
+      throw TypeError(`Expected unlockKey to be 16 hex digits but was '${unlockKey}'`)
+    }
+
+    this.#unlockKey = unlockKey.toLowerCase()
+
+    if (typeof profile === 'string' && !DEVICE_PROFILES[profile]) {
+      throw TypeError(`Unknown device profile '${profile}'`)
+    }
+
+    this.#profile = typeof profile === 'string' ? DEVICE_PROFILES[profile] : profile
+    this.#softwareRevisionLevel = softwareRevisionLevel ?? this.#profile.softwareRevisionLevel
+    this.#productDescription = this.#profile.productDescription
+    this.#deviceModel = deviceModel ?? this.#profile.deviceModel
+    this.#hardwareSpecification = this.#profile.hardwareSpecification
+    this.#ringAlertsEnabled = this.#profile.ringAlertsEnabled
+
+    this.#logger.lastLogDateTime = new Date(this.#clock.now())
+    this.#simpleWaitTime = randomInterval(10 * MILLISECOND, 50 * MILLISECOND, this.#random)
+    this.#longWaitTime = randomInterval(this.#profile.sessionTime.min, this.#profile.sessionTime.max, this.#random)
+
+    if (transport) {
+      this.#transport = transport
+    } else if (portPath) {
+      this.#transport = new SerialTransport({ path: portPath, baudRate })
+    } else if (tcpPort !== undefined) {
+      this.#transport = new TcpTransport({ port: tcpPort, mode: tcpMode, baudRate })
+    } else if (pty) {
+      this.#transport = new PtyTransport(typeof pty === 'object' ? pty : {})
+    } else {
+      throw TypeError('Expected either a portPath, tcpPort, pty or transport to be provided')
+    }
+
+    this.#transport.on('open', () => {
+      this.#logger.info(`Transport open (${this.#transport.description})`)
+
+      if (this.#transport instanceof PtyTransport && this.#transport.path) {
+        this.emit('pty-created', {
+          path: this.#transport.path,
+          link: this.#transport.link
+        })
+      }
+    })
+
+    this.#transport.on('error', (error) => {
+      this.#logger.error(`Transport error. ${error.message}`)
+    })
+
+    this.#transport.on('dte-lines', this.#handleDteLines)
+
+    // command lines are assembled from the raw input in strict mode
+    this.#strict = strict && this.#profile.protocol !== 'jspr'
+    if (this.#strict) this.#transport.stream.on('data', this.#handleStrictInput)
+
+    if (transcript) {
+      this.#recorder = typeof transcript === 'string'
+        ? new TranscriptRecorder({ path: transcript, clock: this.#clock })
+        : transcript
+
+      this.#transport.stream.on('data', (chunk: Buffer) => {
+        this.#recorder?.record('in', this.#binaryMode ? 'binary' : 'text', chunk)
+      })
+    }
+
+    this.#mtQueue = []
+    this.#moBuffer = Buffer.alloc(this.#profile.maxMOLength)
+    this.#moBuffer.fill(0x00)
+    this.#mtBuffer = Buffer.alloc(this.#profile.maxMTLength)
+    this.#mtBuffer.fill(0x00)
+    this.#binaryBuffer = null
+    this.#binaryBufferLength = 0
+    this.#binaryBufferTimeout = null
+
+    // restore the state kept in non-volatile memory before the line terminators are needed
+    this.#stateFile = stateFile ?? null
+    this.#loadState()
+
+    this.#registerCommands()
+
+    this.#commandLineParser = this.#createCommandLineParser()
+
+    if (this.#profile.protocol !== 'jspr' && !this.#strict) this.#transport.stream.pipe(this.#commandLineParser)
+
+    this.#imei = imei
+    this.#rockblockSerial = rockblockSerial
+    if (serialNumber !== undefined) this.#serialNumber = serialNumber
+
+    if (typeof location === 'function') {
+      this.#location = new CallbackLocationProvider(location)
+    } else if ('position' in location) {
+      this.#location = location
+    } else {
+      this.#location = new FixedLocationProvider(location)
+    }
+
+    if (this.#profile.protocol === 'jspr') {
+      this.#jspr = new JsprSession({
+        imei,
+        serialNumber: this.#serialNumber,
+        hardwareVersion: this.#hardwareSpecification,
+        firmwareVersion: this.#softwareRevisionLevel,
+        iccid: `8988169${imei.slice(-12)}`,
+        maxMessageLength: this.#profile.maxMOLength,
+        write: (line) => this.#writeJspr(line),
+        sendMO: (topic, payload) => this.#sendJsprMessage(topic, payload),
+        receiveMT: () => this.#receiveJsprMessage()
+      })
+
+      const jsprParser = new ReadlineParser({ delimiter: '\r' })
+      jsprParser.on('data', async (line: string) => {
+        this.#logger.info(`<< ${line.trim()}`)
+        await this.#jspr?.handleLine(line)
+      })
+
+      this.#transport.stream.pipe(jsprParser)
+    }
+
+    if (rockblockMTServer) {
+      this.#mtServer = new RockBlockMTServer({ ...rockblockMTServer, imei, maxMessageLength: this.#profile.maxMTLength })
+
+      this.#mtServer.on('mt-message', (data) => this.addRemoteMTMessage(data))
+      this.#mtServer.on('flush', () => this.flushRemoteMTQueue())
+      this.#mtServer.on('request', (request, response) => {
+        this.#logger.debug(`RockBLOCK MT request for IMEI ${request.imei} responded with '${response.body}'`)
+      })
+      this.#mtServer.on('error', (error) => {
+        this.#logger.error(`RockBLOCK MT server error. ${error.message}`)
+      })
+
+      this.#mtServer.listen()
+        .then(() => this.#logger.info(`RockBLOCK MT server listening on http://${this.#mtServer?.host}:${this.#mtServer?.port}/rockblock/MT`))
+        .catch((error) => this.#logger.critical(`Unable to start RockBLOCK MT server. ${error.message}`))
+    }
+
+    if (webhooks) {
+      this.#webhooks = new WebhookDelivery({ ...webhooks, clock: this.#clock })
+
+      this.#webhooks.on('delivered', (attempt) => {
+        this.#logger.debug(`Delivered MO message ${attempt.momsn} to ${attempt.url} (attempt ${attempt.attempt})`)
+        this.emit('webhook-delivered', attempt)
+      })
+      this.#webhooks.on('failed', (attempt) => {
+        this.#logger.warn(`Failed to deliver MO message ${attempt.momsn} to ${attempt.url} (attempt ${attempt.attempt}). ${attempt.error}`)
+        this.emit('webhook-failed', attempt)
+      })
+    }
+
+    if (directIp) {
+      this.#directIp = new DirectIpGateway({
+        ...directIp,
+        imei,
+        maxMessageLength: this.#profile.maxMTLength,
+        queueLength: () => this.#mtQueue.length
+      })
+
+      this.#directIp.on('mo-delivered', (message, confirmed) => {
+        this.#logger.debug(`Delivered DirectIP MO message ${message.header.momsn}${confirmed ? ' (confirmed)' : ''}`)
+      })
+      this.#directIp.on('mo-failed', (message, error) => {
+        this.#logger.warn(`Failed to deliver DirectIP MO message ${message.header.momsn}. ${error.message}`)
+      })
+      this.#directIp.on('mt-message', (message) => {
+        this.#logger.debug(`Received DirectIP MT message ${message.header.clientMessageId}${message.priority !== null ? ` with priority ${message.priority}` : ''}`)
+        this.addRemoteMTMessage(message.payload)
+      })
+      this.#directIp.on('mt-flush', () => this.flushRemoteMTQueue())
+      this.#directIp.on('mt-confirmation', (confirmation) => {
+        this.#logger.debug(`DirectIP MT message ${confirmation.clientMessageId} for IMEI ${confirmation.imei} confirmed with status ${confirmation.status}`)
+      })
+      this.#directIp.on('error', (error) => {
+        this.#logger.error(`DirectIP gateway error. ${error.message}`)
+      })
+
+      this.#directIp.listen()
+        .then(() => directIp.mt && this.#logger.info(`DirectIP MT server listening on ${this.#directIp?.mtHost}:${this.#directIp?.mtPort}`))
+        .catch((error) => this.#logger.critical(`Unable to start DirectIP MT server. ${error.message}`))
+    }
+
+    if (jwtSignerKey) {
+      this.#jwtSignerKey = jwtSignerKey.startsWith('-----BEGIN')
+        ? jwtSignerKey
+        : fs.readFileSync(jwtSignerKey).toString()
+
+      if (jwtSignerKeyPassphrase) this.#jwtSignerKeyPassphrase = jwtSignerKeyPassphrase
+    } else {
+      // no key provided, generate a public/private key pair with random password
+      const passphrase = this.#random().toString(36).slice(-8)
+
+      generateKeyPair('rsa', {
+        modulusLength: 4096,
+        publicKeyEncoding: {
+          type: 'spki',
+          format: 'pem'
+        },
+        privateKeyEncoding: {
+          type: 'pkcs8',
+          format: 'pem',
+          cipher: 'aes-256-cbc',
+          passphrase
+        }
+      }, (error, publicKey, privateKey) => {
+        if (error) throw error
+
+        this.#jwtSignerKey = privateKey
+        this.#jwtSignerKeyPassphrase = passphrase
+
+        // notify the new public/private key pair
+        this.emit('signer-key-generated', {
+          publicKey,
+          privateKey,
+          passphrase
+        })
+      })
+    }
+
+    this.#signalQualityRating = signalQualityRating
+    this.#signalModel = signalModel ?? new RatingSignalModel(signalQualityRating)
+    this.#logger.debug(`Using ${this.#signalModel.description}`)
+    this.#updateSignalQuality()
+
+    this.#transport.open().catch((error) => {
+      this.#logger.critical(`Unable to open transport (${this.#transport.description}). ${error.message}`)
+    })
+  }
+
+  /**
+   * Stops the emulator and closes the connection to the DTE.
+   */
+  close = async (): Promise<void> => {
+    if (this.#signalQualityTimeout !== null) this.#clock.clearTimeout(this.#signalQualityTimeout)
+    if (this.#binaryBufferTimeout !== null) this.#clock.clearTimeout(this.#binaryBufferTimeout)
+    if (this.#textMessageTimeout !== null) this.#clock.clearTimeout(this.#textMessageTimeout)
+    this.#signalQualityTimeout = null
+    this.#binaryBufferTimeout = null
+    this.#textMessageTimeout = null
+
+    this.#saveState()
+
+    this.#transport.stream.unpipe()
+    await this.#transport.close()
+    await this.#mtServer?.close()
+    this.#webhooks?.stop()
+    await this.#directIp?.close()
+    await this.#recorder?.close()
+
+    this.#logger.info('Emulator closed')
+  }
+
+  #logger = {
+    lastLogDateTime: new Date(),
+    debug: (message: string) => this.#logger.log(LogLevel.DEBUG, message),
+    info: (message: string) => this.#logger.log(LogLevel.INFO, message),
+    warn: (message: string) => this.#logger.log(LogLevel.WARN, message),
+    error: (message: string) => this.#logger.log(LogLevel.ERROR, message),
+    critical: (message: string) => this.#logger.log(LogLevel.CRITICAL, message),
+    log: (level: LogLevel, message: string) => {
+      const datetime = new Date(this.#clock.now())
+
+      const difference = datetime.getTime() - this.#logger.lastLogDateTime.getTime()
+      let timeSinceLast
+
+      if (difference > HOUR) {
+        timeSinceLast = Math.round(difference / HOUR) + 'h'
+      } if (difference > MINUTE) {
+        timeSinceLast = Math.round(difference / MINUTE) + 'm'
+      } else if (difference > SECOND) {
+        timeSinceLast = Math.round(difference / SECOND) + 's'
+      } else {
+        timeSinceLast = difference + 'ms'
+      }
+
+      this.emit('log', { level, datetime, message, timeSinceLast })
+
+      this.#logger.lastLogDateTime = datetime
+    }
+  }
+
+  #delay (ms: number) {
+    return delay(ms, this.#clock)
+  }
+
+  #write (data: string): void {
+    this.#logger.info(`>> ${data}`)
+    if (this.#readyForShutdown) return
+
+    this.#output(data + this.#character(S3) + this.#character(S4), 'text')
+  }
+
+  /**
+   * Writes a result code as a word or number, depending on the verbose
+   * mode, unless result codes are suppressed by quiet mode.
+   */
+  #writeResult (code: ResultCode): void {
+    const word = typeof code === 'string' ? code : ResultCode[code]
+
+    this.#logger.info(`>> ${word}`)
+    if (this.#readyForShutdown || this.#quietMode) return
+
+    const line = this.#verboseMode
+      ? word + this.#character(S3) + this.#character(S4)
+      : code + this.#character(S3)
+
+    this.#output(line, 'text')
+  }
+
+  /**
+   * Sends output to the DTE, holding it while the DTE has RTS off
+   * under RTS/CTS flow control.
+   */
+  #output (data: string | Buffer, mode: TranscriptMode): void {
+    if (this.#flowControl && !this.#transport.getDteLines().rts) {
+      this.#heldOutput.push({ data, mode })
+      return
+    }
+
+    // the transcript records the bytes exactly as written to the DTE
+    const bytes = Buffer.isBuffer(data) ? data : Buffer.from(data)
+
+    this.#transport.stream.write(bytes)
+    this.#recorder?.record('out', mode, bytes)
+  }
+
+  /**
+   * Sends the output held by RTS/CTS flow control.
+   */
+  #releaseOutput (): void {
+    const held = this.#heldOutput
+    this.#heldOutput = []
+
+    if (held.length > 0) this.#logger.debug(`Releasing ${held.length} responses held by flow control`)
+
+    held.forEach(({ data, mode }) => this.#output(data, mode))
+  }
+
+  /**
+   * Drives the emulator control lines, where the transport supports them.
+   */
+  #setModemLines (lines: Partial<ModemLines>): void {
+    this.#transport.setModemLines(lines).catch((error) => {
+      this.#logger.error(`Unable to set control lines. ${error.message}`)
+    })
+  }
+
+  /**
+   * Responds to the DTE changing its control lines. Dropping DTR puts
+   * the ISU to sleep unless DTR is ignored (&D0), and under &D3 also
+   * restores the default stored profile. Raising RTS releases output
+   * held by flow control.
+   */
+  #handleDteLines = (lines: DteLines): void => {
+    const asleep = !lines.dtr && this.#dtrMode !== 0
+
+    if (asleep !== this.#asleep) {
+      this.#asleep = asleep
+      this.#logger.debug(`DTR ${lines.dtr ? 'raised, waking' : 'dropped, sleeping'} the ISU`)
+
+      if (asleep && this.#dtrMode === 3) {
+        this.#applyConfiguration(this.#storedProfiles[this.#defaultProfile])
+        this.#replaceCommandLineParser()
+      }
+
+      this.#setModemLines({ cts: !asleep && !this.#readyForShutdown })
+    }
+
+    if (lines.rts) this.#releaseOutput()
+  }
+
+  /** The character held in the given S-register */
+  #character (register: number): string {
+    return String.fromCharCode(this.#registers.get(register))
+  }
+
+  #writeJspr (line: string): void {
+    this.#logger.info(`>> ${line}`)
+    this.#output(line + '\r', 'text')
+  }
+
+  #writeBinary (data: Buffer): void {
+    this.#logger.info(`>> ${data.toString('hex')}`)
+    this.#output(data, 'binary')
+  }
+
+  /**
+   * Creates the parser for command lines, terminated by the S3
+   * character. The S4 character following the S3 character of the
+   * previous command line is dropped.
+   */
+  #createCommandLineParser (): CommandLineParser {
+    const parser = new CommandLineParser({ delimiter: this.#character(S3) })
+    parser.on('data', async (data: string) => {
+      let line = data
+      while (line.startsWith(this.#character(S4))) line = line.slice(1)
+
+      if (line !== '') await this.#handleData(line)
+    })
+
+    return parser
+  }
+
+  /**
+   * Replaces the command line parser after the S3 character has been
+   * changed.
+   */
+  #replaceCommandLineParser (): void {
+    if (this.#commandLineParser.delimiter === this.#character(S3)) return
+
+    const piped = this.#profile.protocol !== 'jspr' && !this.#strict && !this.#binaryMode
+    if (piped) this.#transport.stream.unpipe(this.#commandLineParser)
+
+    this.#commandLineParser = this.#createCommandLineParser()
+
+    if (piped) this.#transport.stream.pipe(this.#commandLineParser)
+  }
+
+  #toggleBinaryMode = (binaryBufferLength?: number): void => {
+    if (this.#binaryBufferTimeout !== null) this.#clock.clearTimeout(this.#binaryBufferTimeout)
+
+    this.#binaryMode = !this.#binaryMode
+    this.#binaryBufferLength = binaryBufferLength ?? 0
+    this.#binaryBuffer = null
+
+    if (this.#binaryMode) {
+      this.#binaryBufferTimeout = this.#clock.setTimeout(() => {
+        this.#logger.warn('SBD message write timeout. An insufficient number of bytes were transferred to 9602 during the transfer period of 60 seconds')
+        if (this.#strict) {
+          // the bytes transferred are held by the parser until the message is complete
+          const received = this.#binaryParser?.buffer ?? Buffer.alloc(0)
+
+          this.#violation(
+            ProtocolViolationType.BINARY_TIMEOUT,
+            `Only ${received.length} of ${this.#binaryBufferLength} bytes were transferred within 60 seconds`,
+            received.toString('hex')
+          )
+        }
+        this.#write('1')
+        this.#toggleBinaryMode()
+      }, 60 * SECOND)
+
+      this.#binaryParser = new BinaryMessageParser({ length: this.#binaryBufferLength })
+      this.#binaryParser.on('data', async (data: Buffer) => {
+        await this.#handleData(data)
+      })
+
+      this.#transport.stream.unpipe(this.#commandLineParser)
+      this.#transport.stream.pipe(this.#binaryParser)
+
+      this.#writeResult(ResultCode.READY)
+    } else {
+      if (this.#binaryParser) this.#transport.stream.unpipe(this.#binaryParser)
+      this.#binaryParser = null
+
+      if (this.#strict) {
+        // keep the input flowing to the strict mode handler
+        this.#transport.stream.resume()
+      } else {
+        this.#transport.stream.pipe(this.#commandLineParser)
+      }
+    }
+  }
+
+  /**
+   * Assembles command lines from the raw input of the DTE in strict
+   * mode, detecting violations. Only a <CR> terminates a command line
+   * and input received while a command is being processed is
+   * discarded, as it would be by the ISU.
+   */
+  #handleStrictInput = (chunk: Buffer): void => {
+    if (this.#binaryMode) return
+
+    let terminator: string | null = null
+    const discarded: number[] = []
+
+    for (const byte of chunk) {
+      if (byte === this.#registers.get(S4)) {
+        terminator = this.#lastInputByte === this.#registers.get(S3) ? '<CR><LF>' : '<LF>'
+      } else if (this.#commandInProgress !== null) {
+        discarded.push(byte)
+      } else if (byte === this.#registers.get(S3)) {
+        if (this.#commandLine !== '') this.#handleStrictCommand(this.#commandLine)
+        this.#commandLine = ''
+      } else {
+        this.#commandLine += String.fromCharCode(byte)
+
+        // A/ is executed without waiting for a line terminator
+        if (isRepeatCommand(this.#commandLine)) {
+          this.#handleStrictCommand(this.#commandLine)
+          this.#commandLine = ''
+        }
+      }
+
+      this.#lastInputByte = byte
+    }
+
+    if (terminator) {
+      this.#violation(ProtocolViolationType.LINE_TERMINATOR, `Command line terminated with ${terminator}, expected <CR>`, chunk.toString())
+    }
+
+    if (this.#commandInProgress !== null && discarded.length > 0) {
+      const type = inputViolationType(this.#commandInProgress)
+      const received = Buffer.from(discarded)
+
+      this.#violation(
+        type,
+        `Input received while processing ${this.#commandInProgress} was discarded`,
+        type === ProtocolViolationType.BINARY_BEFORE_READY ? received.toString('hex') : received.toString()
+      )
+    }
+  }
+
+  /**
+   * Processes a command line in strict mode, where only one command
+   * is processed at a time.
+   */
+  #handleStrictCommand = async (line: string): Promise<void> => {
+    this.#commandInProgress = line
+
+    try {
+      await this.#handleData(line)
+    } finally {
+      this.#commandInProgress = null
+    }
+  }
+
+  #violation (type: ProtocolViolationType, message: string, received: string): void {
+    this.#logger.warn(`Protocol violation (${type}). ${message}`)
+
+    this.emit('violation', {
+      type,
+      message,
+      command: this.#commandInProgress,
+      received,
+      datetime: new Date(this.#clock.now())
+    })
+  }
+
+  #handleData = async (data: string | Buffer): Promise<void> => {
+    this.#logger.info(`<< ${this.#binaryMode ? data.toString('hex') : data}`)
+
+    if (this.#binaryMode) {
+      try {
+        const chunk = Buffer.isBuffer(data) ? data : Buffer.from(data, 'hex')
+        this.#binaryBuffer = this.#binaryBuffer ? Buffer.concat([this.#binaryBuffer, chunk]) : chunk
+      } catch (error: any) {
+        this.#logger.error('Buffer overload. ' + error.message ?? '')
+        this.#write('2')
+        return this.#toggleBinaryMode()
+      }
+
+      if (this.#binaryBuffer.length === this.#binaryBufferLength) {
+        // received the expected number of bytes, now we can
+        // calculate the checksum against the checksum provided
+        // by the client.
+        const buffer = this.#binaryBuffer.subarray(0, this.#binaryBuffer.length - 2)
+        const checksum = this.#binaryBuffer.subarray(this.#binaryBuffer.length - 2, this.#binaryBuffer.length)
+
+        const calculatedChecksum = calculateChecksum(buffer)
+
+        this.#logger.debug(`Client provided checksum was '${checksum.toString('hex')}', calculated checksum was '${calculatedChecksum.toString('hex')}'`)
+
+        if (checksum.equals(calculatedChecksum)) {
+          this.moBuffer.fill(0x00)
+          buffer.copy(this.#moBuffer)
+          this.#saveState()
+          this.#write('0')
+        } else {
+          this.#logger.warn('SBD message checksum sent from DTE does not match the checksum calculated by the 9602.')
+          this.#write('2')
+        }
+
+        this.#toggleBinaryMode()
+      } else if (this.#binaryBuffer.length > this.#binaryBufferLength) {
+        this.#logger.warn(`Received more binary data (${this.#binaryBuffer.length}) than expected (${this.#binaryBufferLength})`)
+        this.#write('2')
+
+        this.#toggleBinaryMode()
+      }
+
+      return
+    }
+
+    // we are no longer processing commands...
+    if (this.#readyForShutdown) return
+
+    if (this.#asleep) {
+      this.#logger.debug('Ignoring input while DTR is off')
+      return
+    }
+
+    if (data instanceof Buffer) {
+      this.#writeResult(ResultCode.ERROR)
+      return
+    }
+
+    let line = applyBackspace(data, this.#registers.get(S5))
+
+    // the line sent after the READY prompt of AT+SBDWT is the message itself
+    const textMessage = this.#textMessageTimeout !== null
+
+    if (textMessage) {
+      this.#clock.clearTimeout(this.#textMessageTimeout)
+      this.#textMessageTimeout = null
+    } else if (isRepeatCommand(line)) {
+      // A/ repeats the previous command line
+      line = this.#lastCommandLine
+    } else {
+      this.#lastCommandLine = line
+    }
+
+    if (this.#echoEnabled) {
+      await this.#delay(this.#simpleWaitTime)
+      this.#write(data)
+    }
+
+    await this.#delay(this.#simpleWaitTime)
+
+    if (textMessage) {
+      const result = this.#writeTextMessage(line)
+      if (result === ResultCode.OK) this.#write('0')
+      else this.#writeResult(result)
+      return
+    }
+
+    await this.#executeCommandLine(line)
+  }
+
+  /**
+   * Executes the commands of a command line in order, stopping at the
+   * first command which fails. A single final result code is written
+   * once every command has been executed.
+   */
+  #executeCommandLine = async (line: string): Promise<void> => {
+    const commands = parseCommandLine(line, { rawArguments: ['+SBDWT'] })
+
+    if (!commands) {
+      this.#logger.error(`Unable to parse command line '${line}'`)
+      this.#writeResult(ResultCode.ERROR)
+      return
+    }
+
+    for (const command of commands) {
+      if (!isCommandSupported(this.#profile, command.name)) {
+        this.#logger.error(`Command not supported by the ${this.#profile.name} profile`)
+        this.#writeResult(ResultCode.ERROR)
+        return
+      }
+
+      const handler = this.#commands.resolve(command)
+
+      if (!handler) {
+        this.#logger.error(`Command ${command.name} not supported in emulator`)
+        this.#writeResult(ResultCode.ERROR)
+        return
+      }
+
+      const result = await handler(command)
+
+      // the handler has written its own final response
+      if (result === null) return
+
+      if (result !== ResultCode.OK) {
+        this.#pendingIndications = []
+        this.#writeResult(result)
+        return
+      }
+    }
+
+    this.#writeResult(ResultCode.OK)
+
+    for (const indication of this.#pendingIndications) this.#write(indication)
+    this.#pendingIndications = []
+  }
+
+  /**
+   * Writes a text message given by AT+SBDWT to the MO buffer.
+   */
+  #writeTextMessage (message: string): ResultCode {
+    if (message.length > this.#profile.maxMOLength) {
+      this.#logger.warn(`SBD message size is not correct. The maximum mobile originated SBD message length is ${this.#profile.maxMOLength} bytes.`)
+      return ResultCode.ERROR
+    }
+
+    this.#moBuffer.fill(0x00)
+    if (message.trim() !== '') this.#moBuffer.write(message)
+    this.#saveState()
+    return ResultCode.OK
+  }
+
+  /** The active configuration, as stored by AT&W */
+  #activeConfiguration (): ModemConfiguration {
+    return {
+      echo: this.#echoEnabled,
+      quiet: this.#quietMode,
+      verbose: this.#verboseMode,
+      flowControl: this.#flowControl,
+      dtrMode: this.#dtrMode,
+      registers: this.#registers.values
+    }
+  }
+
+  /**
+   * Makes the given configuration the active configuration. The caller
+   * is responsible for replacing the command line parser.
+   */
+  #applyConfiguration (configuration: ModemConfiguration): void {
+    this.#echoEnabled = configuration.echo
+    this.#quietMode = configuration.quiet
+    this.#verboseMode = configuration.verbose
+    this.#flowControl = configuration.flowControl
+    this.#dtrMode = configuration.dtrMode ?? 2
+    this.#registers = new SRegisters(configuration.registers)
+  }
+
+  /** The active or a stored configuration formatted as in AT&V */
+  #formatConfiguration (configuration: ModemConfiguration): string[] {
+    const registers = new SRegisters(configuration.registers)
+
+    return [
+      `E${configuration.echo ? 1 : 0} Q${configuration.quiet ? 1 : 0} V${configuration.verbose ? 1 : 0} &D${configuration.dtrMode ?? 2} &K${configuration.flowControl ? 3 : 0}`,
+      PROFILE_S_REGISTERS.map(registers.format).join(' ')
+    ]
+  }
+
+  /**
+   * Restores the sequence numbers, buffers, MT queue and stored
+   * profiles from the state file, then activates the default profile
+   * as the ISU does at power up. An unreadable state file leaves the
+   * factory state in place.
+   */
+  #loadState (): void {
+    if (!this.#stateFile) return
+
+    let state: ModemState | null
+
+    try {
+      state = readModemState(this.#stateFile)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      // reported once the caller has had a chance to listen for log events
+      process.nextTick(() => this.#logger.error(`Unable to restore state, using the factory state. ${message}`))
+      return
+    }
+
+    if (!state) return
+
+    this.#moSequenceNo = state.moSequenceNo
+    this.#mtSequenceNo = state.mtSequenceNo
+    Buffer.from(state.moBuffer, 'hex').copy(this.#moBuffer)
+    Buffer.from(state.mtBuffer, 'hex').copy(this.#mtBuffer)
+    this.#mtQueue.push(...state.mtQueue.map((message) => Buffer.from(message, 'hex')))
+    this.#storedProfiles = state.profiles
+    this.#defaultProfile = state.defaultProfile
+    this.#lockStatus = state.lockStatus ?? LockStatus.UNLOCKED
+
+    this.#applyConfiguration(this.#storedProfiles[this.#defaultProfile] ?? factoryConfiguration())
+
+    this.#logger.debug(`Restored state from '${this.#stateFile}' (MOMSN ${this.#moSequenceNo}, MTMSN ${this.#mtSequenceNo})`)
+  }
+
+  /**
+   * Writes the non-volatile state to the state file, if any.
+   */
+  #saveState (): void {
+    if (!this.#stateFile) return
+
+    try {
+      writeModemState(this.#stateFile, {
+        moSequenceNo: this.#moSequenceNo,
+        mtSequenceNo: this.#mtSequenceNo,
+        moBuffer: trimBuffer(this.#moBuffer).toString('hex'),
+        mtBuffer: trimBuffer(this.#mtBuffer).toString('hex'),
+        mtQueue: this.#mtQueue.map((message) => message.toString('hex')),
+        profiles: this.#storedProfiles,
+        defaultProfile: this.#defaultProfile,
+        lockStatus: this.#lockStatus
+      })
+    } catch (error: unknown) {
+      this.#logger.error(`Unable to save state to '${this.#stateFile}'. ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Registers the commands understood by the emulator.
+   */
+  #registerCommands (): void {
+    /** DTE Echo */
+    this.#commands.register('E', {
+      action: ({ value }) => {
+        switch (value) {
+          case '':
+          case '0': // Disable
+            this.#echoEnabled = false
+            return ResultCode.OK
+          case '1': // Enable
+            this.#echoEnabled = true
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      }
+    })
+
+    /** Identification */
+    this.#commands.register('I', {
+      action: ({ value }) => {
+        switch (value) {
+          case '':
+          case '0': // Compatability
+            this.#write('2400')
+            break
+          case '1': // Compatability
+            this.#write('0000')
+            break
+          case '2': // Compatability
+            this.#write('OK')
+            break
+          case '3': // Software Revision Level
+            this.#write(this.#softwareRevisionLevel)
+            break
+          case '4': // Product Description
+            this.#write(this.#productDescription)
+            break
+          case '5': // Compatability
+            this.#write('8861')
+            break
+          case '6': // Factory Identity
+            this.#write('16E')
+            break
+          case '7': // Hardware Specification
+            this.#write(this.hardwareSpecification)
+            break
+          default:
+            return ResultCode.ERROR
+        }
+
+        return ResultCode.OK
+      }
+    })
+
+    /** Quiet Mode */
+    this.#commands.register('Q', {
+      action: ({ value }) => {
+        switch (value) {
+          case '':
+          case '0': // Disable
+            this.#quietMode = false
+            return ResultCode.OK
+          case '1': // Enable
+            this.#quietMode = true
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      }
+    })
+
+    /** Verbose Mode */
+    this.#commands.register('V', {
+      action: ({ value }) => {
+        switch (value) {
+          case '':
+          case '0': // Numeric result codes
+            this.#verboseMode = false
+            return ResultCode.OK
+          case '1': // Verbal result codes
+            this.#verboseMode = true
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      }
+    })
+
+    /** S-Registers */
+    this.#commands.register('S', {
+      action: ({ register }) => this.#registers.has(register ?? -1) ? ResultCode.OK : ResultCode.ERROR,
+      read: ({ register }) => {
+        if (!this.#registers.has(register ?? -1)) return ResultCode.ERROR
+
+        this.#write(String(this.#registers.get(register ?? 0)).padStart(3, '0'))
+        return ResultCode.OK
+      },
+      set: ({ register, value }) => {
+        const number = Number(value)
+
+        if (!this.#registers.has(register ?? -1) || value === '' || number > 255) return ResultCode.ERROR
+
+        this.#registers.set(register ?? 0, number)
+
+        // the command line terminator has changed
+        if (register === S3) this.#replaceCommandLineParser()
+
+        return ResultCode.OK
+      },
+      test: ({ register }) => {
+        if (!this.#registers.has(register ?? -1)) return ResultCode.ERROR
+
+        this.#write('(0-255)')
+        return ResultCode.OK
+      }
+    })
+
+    /** Restore User Config */
+    this.#commands.register('Z', {
+      action: ({ value }) => {
+        if (!['', '0', '1'].includes(value)) return ResultCode.ERROR
+
+        this.#applyConfiguration(this.#storedProfiles[Number(value)])
+        this.#replaceCommandLineParser()
+        return ResultCode.OK
+      }
+    })
+
+    /** Restore Factory Settings */
+    this.#commands.register('&F', {
+      action: ({ value }) => {
+        if (!['', '0'].includes(value)) return ResultCode.ERROR
+
+        this.#applyConfiguration(factoryConfiguration())
+        this.#replaceCommandLineParser()
+        return ResultCode.OK
+      }
+    })
+
+    /** Flow Control */
+    this.#commands.register('&K', {
+      action: ({ value }) => {
+        switch (value) {
+          case '':
+          case '0': // Disable
+            this.#flowControl = false
+            this.#releaseOutput()
+            return ResultCode.OK
+          case '3': // Enable RTS/CTS
+            this.#flowControl = true
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      }
+    })
+
+    /** DTR Option */
+    this.#commands.register('&D', {
+      action: ({ value }) => {
+        // ignore DTR (0), or sleep while DTR is off (1, 2) and also reset to the stored profile (3)
+        if (!['', '0', '1', '2', '3'].includes(value)) return ResultCode.ERROR
+
+        this.#dtrMode = Number(value)
+        return ResultCode.OK
+      }
+    })
+
+    /** View Active and Stored Configuration */
+    this.#commands.register('&V', {
+      action: () => {
+        this.#write('ACTIVE PROFILE: ')
+        this.#formatConfiguration(this.#activeConfiguration()).forEach((line) => this.#write(line))
+        this.#write('STORED PROFILE 0:')
+        this.#formatConfiguration(this.#storedProfiles[0]).forEach((line) => this.#write(line))
+        this.#write('STORED PROFILE 1:')
+        this.#formatConfiguration(this.#storedProfiles[1]).forEach((line) => this.#write(line))
+        return ResultCode.OK
+      }
+    })
+
+    /** Store Active Configuration */
+    this.#commands.register('&W', {
+      action: ({ value }) => {
+        if (!['', '0', '1'].includes(value)) return ResultCode.ERROR
+
+        this.#storedProfiles[Number(value)] = this.#activeConfiguration()
+        this.#saveState()
+        return ResultCode.OK
+      }
+    })
+
+    /** Designate Default Reset Profile */
+    this.#commands.register('&Y', {
+      action: ({ value }) => {
+        if (!['', '0', '1'].includes(value)) return ResultCode.ERROR
+
+        this.#defaultProfile = Number(value)
+        this.#saveState()
+        return ResultCode.OK
+      }
+    })
+
+    /** Display Registers */
+    this.#commands.register('%R', {
+      action: async () => {
+        this.#write('REG  DEC HEX  REG  DEC HEX')
+        const column = (register: number) => {
+          const value = this.#registers.get(register)
+          return `S${String(register).padStart(3, '0')} ${String(value).padStart(3, '0')} ${value.toString(16).toUpperCase().padStart(2, '0')}H`
+        }
+
+        for (let i = 0; i < S_REGISTER_COUNT; i += 2) {
+          await this.#delay(this.#simpleWaitTime)
+          this.#write('')
+          this.#write(`${column(i)}  ${column(i + 1)}`)
+        }
+        return ResultCode.OK
+      }
+    })
+
+    /** Flush to EEPROM */
+    this.#commands.register('*F', {
+      action: () => {
+        this.#saveState()
+
+        // no further responses are sent once flushed
+        this.#readyForShutdown = true
+        this.#setModemLines({ dsr: false, cts: false })
+        return null
+      }
+    })
+
+    /** Radio Activity */
+    this.#commands.register('*R', {
+      action: ({ value }) => {
+        switch (value) {
+          case '':
+          case '0': // Disable
+            this.#radioActivityEnabled = false
+            return ResultCode.OK
+          case '1': // Enable
+            this.#radioActivityEnabled = true
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      }
+    })
+
+    /** Real Clock Time */
+    this.#commands.register('+CCLK', {
+      read: () => {
+        // the clock is set from Iridium system time whenever the network is available
+        if (this.#serviceAvailable) this.#rtcOffset = this.#networkClock.now() - this.#clock.now()
+
+        if (this.#rtcOffset === null) {
+          this.#logger.warn('Real time clock has not been set from Iridium system time')
+          return ResultCode.ERROR
+        }
+
+        const time = new Date(this.#clock.now() + this.#rtcOffset)
+        const pad = (value: number) => String(value).padStart(2, '0')
+
+        this.#write(`+CCLK:${pad(time.getUTCFullYear() % 100)}/${pad(time.getUTCMonth() + 1)}/${pad(time.getUTCDate())},${pad(time.getUTCHours())}:${pad(time.getUTCMinutes())}:${pad(time.getUTCSeconds())}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Request Geolocation */
+    this.#commands.register('-MSGEO', {
+      action: () => {
+        // coordinates are reported with a resolution of 4 km
+        const { x, y, z } = this.#geolocation ? ecefPosition(this.#geolocation, 4) : { x: 0, y: 0, z: 0 }
+        const systemTime = this.#geolocation?.systemTime ?? 0
+
+        this.#write(`-MSGEO: ${x},${y},${z},${formatIridiumSystemTime(systemTime)}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Request System Time */
+    this.#commands.register('-MSSTM', {
+      action: () => {
+        if (!this.#serviceAvailable) {
+          this.#write('-MSSTM: no network service')
+          return ResultCode.OK
+        }
+
+        this.#rtcOffset = this.#networkClock.now() - this.#clock.now()
+
+        this.#write(`-MSSTM: ${formatIridiumSystemTime(this.#networkClock.systemTime())}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Manufacturer Identification */
+    this.#commands.register(['+GMI', '+CGMI'], {
+      action: () => {
+        this.#write('Iridium')
+        return ResultCode.OK
+      }
+    })
+
+    /** Model Identification */
+    this.#commands.register(['+GMM', '+CGMM'], {
+      action: () => {
+        this.#write(this.#deviceModel)
+        return ResultCode.OK
+      }
+    })
+
+    /** Revision Identification */
+    this.#commands.register(['+GMR', '+CGMR'], {
+      action: () => {
+        this.#write(`Call Processor Version: ${this.#softwareRevisionLevel}`)
+        this.#write('')
+        this.#write(`Modem DSP Version: ${this.#profile.revision.modemDsp}`)
+        this.#write('')
+        this.#write(`DBB Version: ${this.#profile.revision.dbb}`)
+        this.#write('')
+        this.#write(`RFA Version: ${this.#profile.revision.rfa}`)
+        this.#write('')
+        this.#write(`NVM Version: ${this.#profile.revision.nvm}`)
+        this.#write('')
+        this.#write(`Hardware Version: ${this.hardwareSpecification}`)
+        this.#write('')
+        this.#write(`BOOT Verson: ${this.#profile.revision.boot}`)
+        this.#write('')
+        return ResultCode.OK
+      }
+    })
+
+    /** Serial Number Identification */
+    this.#commands.register(['+GSN', '+CGSN'], {
+      action: () => {
+        this.#write(this.#serialNumber)
+        return ResultCode.OK
+      }
+    })
+
+    /** Indicator Event Reporting */
+    this.#commands.register('+CIER', {
+      set: ({ value }) => {
+        switch (value) {
+          case '0,0,0,0': // Disable
+          case '0,1,0,0': // Disable
+          case '0,0,1,0': // Disable
+          case '1,0,0,0': // Disable
+            this.#serviceAvailabilityIndicator = false
+            this.#signalQualityIndicator = false
+            break
+          case '1,1,0,0': // Enable Signal
+            this.#signalQualityIndicator = true
+            this.#serviceAvailabilityIndicator = false
+            break
+          case '1,0,1,0': // Enable Service
+            this.#signalQualityIndicator = false
+            this.#serviceAvailabilityIndicator = true
+            break
+          case '1,1,1,0': // Enable Signal & Service
+            this.#signalQualityIndicator = true
+            this.#serviceAvailabilityIndicator = true
+            break
+          default:
+            return ResultCode.ERROR
+        }
+
+        // the current indicator values are reported after the result code
+        if (this.#signalQualityIndicator) this.#pendingIndications.push(`+CIEV:0,${this.#currentSignalQuality}`)
+        if (this.#serviceAvailabilityIndicator) this.#pendingIndications.push(`+CIEV:1,${this.#serviceAvailable ? 1 : 0}`)
+
+        return ResultCode.OK
+      },
+      read: () => {
+        const enabled = this.#signalQualityIndicator || this.#serviceAvailabilityIndicator
+        this.#write(`+CIER:${enabled ? 1 : 0},${this.#signalQualityIndicator ? 1 : 0},${this.#serviceAvailabilityIndicator ? 1 : 0},0`)
+        return ResultCode.OK
+      },
+      test: () => {
+        this.#write('+CIER:(0-1),(0-1),(0-1),(0-1)')
+        return ResultCode.OK
+      }
+    })
+
+    /** Ring Indication Status */
+    this.#commands.register('+CRIS', {
+      action: () => {
+        this.#write(`+CRIS:000,${this.ringAlertActive ? '001' : '000'}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Signal Quality */
+    this.#commands.register('+CSQ', {
+      action: async () => {
+        await this.#delay(2 * SECOND)
+        this.#write(`+CSQ:${this.#currentSignalQuality}`)
+        return ResultCode.OK
+      },
+      test: () => {
+        this.#write('+CSQ:(0-5)')
+        return ResultCode.OK
+      }
+    })
+
+    /** Signal Quality - Fast (Last Known) */
+    this.#commands.register('+CSQF', {
+      action: () => {
+        this.#write(`+CSQF:${this.#currentSignalQuality}`)
+        return ResultCode.OK
+      },
+      test: () => {
+        this.#write('+CSQF:(0-5)')
+        return ResultCode.OK
+      }
+    })
+
+    /** Unlock Device */
+    this.#commands.register('+CULK', {
+      set: ({ value }) => {
+        if (!/^[0-9a-f]{16}$/i.test(value)) return ResultCode.ERROR
+
+        if (this.#lockStatus === LockStatus.LOCKED && value.toLowerCase() === this.#unlockKey) {
+          this.#logger.info('Device unlocked')
+          this.#lockStatus = LockStatus.UNLOCKED
+          this.#saveState()
+        } else if (this.#lockStatus === LockStatus.LOCKED) {
+          this.#logger.warn('Incorrect unlock key')
+        }
+
+        this.#write(`+CULK:${this.#lockStatus}`)
+        return ResultCode.OK
+      },
+      read: () => {
+        this.#write(`+CULK:${this.#lockStatus}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Fixed DTE Rate */
+    this.#commands.register('+IPR', {
+      action: () => ResultCode.OK,
+      set: () => ResultCode.OK,
+      read: () => {
+        this.#write('+IPR:6')
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Write a Text Message to the Module */
+    this.#commands.register('+SBDWT', {
+      action: () => {
+        this.#textMessageTimeout = this.#clock.setTimeout(() => {
+          this.#textMessageTimeout = null
+          this.#logger.warn('SBD message write timeout. No text message was received during the transfer period of 60 seconds')
+          this.#write('1')
+        }, 60 * SECOND)
+
+        this.#writeResult(ResultCode.READY)
+        return null
+      },
+      set: ({ value }) => this.#writeTextMessage(value)
+    })
+
+    /** Short Burst Data: Read a Text Message from the Module */
+    this.#commands.register('+SBDRT', {
+      action: () => {
+        this.#write('+SBDRT:')
+        this.#write(this.#mtBuffer.toString())
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Read Binary Data from the Module */
+    this.#commands.register('+SBDRB', {
+      action: () => {
+        const buffer = trimBuffer(this.mtBuffer)
+        const checksum = calculateChecksum(buffer)
+
+        const length = Buffer.alloc(2)
+        length.writeUInt16BE(buffer.length)
+
+        const fault = this.#faults.nextReadBinaryFault()
+        if (fault?.corruptChecksum) {
+          this.#logger.debug('Injecting corrupt SBD message checksum')
+          checksum[1] ^= 0xff
+        }
+
+        let data = Buffer.concat([length, buffer, checksum])
+        if (fault?.truncate !== undefined) {
+          this.#logger.debug(`Injecting truncated SBD message transfer of ${fault.truncate} bytes`)
+          data = data.subarray(0, fault.truncate)
+        }
+
+        this.#writeBinary(data)
+        return null
+      }
+    })
+
+    /** Short Burst Data: Write Binary Data to the ISU */
+    this.#commands.register('+SBDWB', {
+      set: ({ value }) => {
+        // attempt to parse expected binary length as integer
+        const length = parseInt(value)
+
+        if (Number.isNaN(length)) return ResultCode.ERROR
+
+        if (length < 1 || length > this.#profile.maxMOLength) {
+          this.#logger.warn(`SBD message size is not correct. The maximum mobile originated SBD message length is ${this.#profile.maxMOLength} bytes. The minimum mobile originated SBD message length is 1 byte`)
+          this.#write('3')
+          return null
+        }
+
+        this.#toggleBinaryMode(length + 2)
+        return null
+      },
+      test: () => {
+        this.#write(`+SBDWB:(1-${this.#profile.maxMOLength})`)
+        return ResultCode.OK
+      }
+    })
+
+    /* Short Burst Data: Initiate an SBD Session Extended */
+    this.#commands.register(['+SBDIX', '+SBDIXA'], {
+      action: async ({ name }) => {
+        if (this.#strict && name === '+SBDIX' && this.#ringAlertActive) {
+          this.#violation(ProtocolViolationType.RING_ALERT_NOT_ANSWERED, 'SBD ring alert should be answered with AT+SBDIXA', `AT${name}`)
+        }
+
+        const result = await this.#initiateSession(true)
+        if (result.dropped) return null
+
+        this.#write(`+SBDIX: ${result.moStatus}, ${this.#moSequenceNo}, ${result.mtStatus}, ${this.#mtSequenceNo}, ${result.mtLength}, ${this.mtQueue.length}`)
+        return ResultCode.OK
+      }
+    })
+
+    /* Short Burst Data: Initiate an SBD Session */
+    this.#commands.register('+SBDI', {
+      action: async () => {
+        const hasMessage = trimBuffer(this.#moBuffer).length > 0
+        const result = await this.#initiateSession(hasMessage)
+        if (result.dropped) return null
+
+        // the legacy command reports 0 (nothing to send), 1 (sent) or 2 (failed)
+        let moStatus = 0
+        if (hasMessage) moStatus = result.moStatus <= 4 ? 1 : 2
+
+        this.#write(`+SBDI: ${moStatus}, ${this.#moSequenceNo}, ${result.mtStatus}, ${this.#mtSequenceNo}, ${result.mtLength}, ${this.mtQueue.length}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Network Registration */
+    this.#commands.register('+SBDREG', {
+      action: async () => {
+        const error = await this.#register()
+
+        this.#write(`+SBDREG:${this.#registrationStatus},${error}`)
+        return ResultCode.OK
+      },
+      read: () => {
+        this.#write(`+SBDREG:${this.#registrationStatus}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Detatch */
+    this.#commands.register('+SBDDET', {
+      action: async () => {
+        let error = 0
+
+        if (!this.#radioActivityEnabled) {
+          error = 34
+        } else if (!this.#serviceAvailable) {
+          error = 32
+        } else {
+          await this.#delay(this.#longWaitTime)
+          this.#registrationStatus = RegistrationStatus.DETACHED
+        }
+
+        this.#write(`+SBDDET:${error === 0 ? 0 : 1},${error}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Mobile-Terminated Alert */
+    this.#commands.register('+SBDMTA', {
+      set: ({ value }) => {
+        switch (value) {
+          case '0': // Disable SBD Ring Alert indication
+            this.#ringAlertsEnabled = false
+            return ResultCode.OK
+          case '1': // Enable SBD Ring Alert indication (default)
+            this.#ringAlertsEnabled = true
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      },
+      read: () => {
+        this.#write(`+SBDMTA:${this.#ringAlertsEnabled ? 1 : 0}`)
+        return ResultCode.OK
+      },
+      test: () => {
+        this.#write('+SBDMTA:(0-1)')
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Automatic Registration */
+    this.#commands.register('+SBDAREG', {
+      set: ({ value }) => {
+        switch (value) {
+          case '0': // Disable Automatic SBD Network Registration (default)
+            this.#automaticRegistrationMode = AutomaticRegistrationMode.DISABLED
+            return ResultCode.OK
+          case '1': // Set the Automatic SBD Network Registration mode to "Automatic"
+            this.#automaticRegistrationMode = AutomaticRegistrationMode.AUTOMATIC
+            return ResultCode.OK
+          case '2': // Set the Automatic SBD Network Registration mode to "Ask"
+            this.#automaticRegistrationMode = AutomaticRegistrationMode.ASK
+            return ResultCode.OK
+          default:
+            return ResultCode.ERROR
+        }
+      },
+      read: () => {
+        this.#write(`+SBDAREG:${this.#automaticRegistrationMode}`)
+        return ResultCode.OK
+      },
+      test: () => {
+        this.#write('+SBDAREG:(0-2)')
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Status */
+    this.#commands.register('+SBDS', {
+      action: () => {
+        const moFlag = trimBuffer(this.#moBuffer).length > 0 ? 1 : 0
+        const mtFlag = trimBuffer(this.#mtBuffer).length > 0 ? 1 : 0
+
+        this.#write(`+SBDS: ${moFlag}, ${this.#moSequenceNo}, ${mtFlag}, ${this.#mtSequenceNo}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Status Extended */
+    this.#commands.register('+SBDSX', {
+      action: () => {
+        const moFlag = trimBuffer(this.#moBuffer).length > 0 ? 1 : 0
+        const mtFlag = trimBuffer(this.#mtBuffer).length > 0 ? 1 : 0
+        const raFlag = this.#ringAlertActive ? 1 : 0
+
+        this.#write(`+SBDSX: ${moFlag}, ${this.#moSequenceNo}, ${mtFlag}, ${this.#mtSequenceNo}, ${raFlag}, ${this.#mtQueue.length}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Transfer MO Buffer to MT Buffer */
+    this.#commands.register('+SBDTC', {
+      action: () => {
+        const buffer = trimBuffer(this.#moBuffer)
+
+        this.#mtBuffer = Buffer.alloc(this.#profile.maxMTLength)
+        buffer.copy(this.#mtBuffer, 0, 0, Math.min(buffer.length, this.#mtBuffer.length))
+        this.#saveState()
+
+        this.#write(`SBDTC: Outbound SBD Copied to Inbound SBD: size = ${buffer.length}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Clear SBD MOMSN */
+    this.#commands.register('+SBDC', {
+      action: () => {
+        this.#moSequenceNo = 0
+        this.#saveState()
+        this.#write('0')
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Session Timeout */
+    this.#commands.register('+SBDST', {
+      set: ({ value }) => {
+        const timeout = Number(value)
+
+        if (value === '' || !Number.isInteger(timeout) || timeout < 0) return ResultCode.ERROR
+
+        this.#sessionTimeout = timeout
+        return ResultCode.OK
+      },
+      read: () => {
+        this.#write(`+SBDST:${this.#sessionTimeout}`)
+        return ResultCode.OK
+      }
+    })
+
+    /** Short Burst Data: Clear SBD Message Buffer(s) */
+    this.#commands.register('+SBDD0', {
+      action: () => {
+        this.#moBuffer.fill(0x00)
+        this.#saveState()
+        return ResultCode.OK
+      }
+    })
+    this.#commands.register('+SBDD1', {
+      action: () => {
+        this.#mtBuffer.fill(0x00)
+        this.#saveState()
+        return ResultCode.OK
+      }
+    })
+    this.#commands.register('+SBDD2', {
+      action: () => {
+        this.#moBuffer.fill(0x00)
+        this.#mtBuffer.fill(0x00)
+        this.#saveState()
+        return ResultCode.OK
+      }
+    })
+  }
+
+  /**
+   * Simulates an SBD session with the Iridium gateway. The MO buffer
+   * is sent when requested and the next MT message is retrieved
+   * from the remote queue.
+   */
+  #initiateSession = async (sendMessage: boolean): Promise<SessionResult> => {
+    // sessions which are never attempted leave any queued fault for the next session
+    if (!this.radioActivityEnabled) {
+      this.#logger.warn('Radio activity is currently disabled. Unable to initiate simulated SBD session.')
+      return { moStatus: 34, mtStatus: 2, mtLength: 0, dropped: false }
+    }
+
+    if (this.#lockStatus !== LockStatus.UNLOCKED) {
+      this.#logger.warn('Device is locked. Unable to initiate simulated SBD session.')
+      return { moStatus: 16, mtStatus: 2, mtLength: 0, dropped: false }
+    }
+
+    const fault = this.#faults.nextSessionFault()
+    const dropped = fault?.dropResponse ?? false
+    const waitTime = this.#longWaitTime + (fault?.delay ?? 0)
+
+    if (fault) this.#logger.debug(`Injecting session fault ${JSON.stringify(fault)}`)
+
+    if (this.#sessionTimeout > 0 && waitTime > this.#sessionTimeout * SECOND) {
+      this.#logger.debug(`Initiating simulated SBD session. Session will time out after ${this.#sessionTimeout} seconds...`)
+
+      await this.#delay(this.#sessionTimeout * SECOND)
+
+      this.#logger.warn('SBD session timed out before the gateway responded.')
+      return { moStatus: 17, mtStatus: 2, mtLength: 0, dropped }
+    }
+
+    this.#logger.debug(`Initiating simulated SBD session. Waiting ${Math.round(waitTime / SECOND)} seconds...`)
+
+    await this.#delay(waitTime)
+
+    if (this.#applyPendingLock()) return { moStatus: 16, mtStatus: 2, mtLength: 0, dropped }
+
+    let success = this.#sessionSucceeded()
+
+    // an injected MO status of 0-4 indicates the message was sent
+    if (fault?.moStatus !== undefined) success = fault.moStatus <= 4
+
+    const position = success ? this.#updateGeolocation() : null
+
+    if (position && sendMessage) {
+      this.#moSequenceNo++
+      this.#mtSequenceNo++
+
+      this.#deliverMOMessage(trimBuffer(this.moBuffer), position)
+    }
+
+    let mtStatus = success ? 0 : 2
+    let mtLength = 0
+    if (success && fault?.mtStatus !== undefined) {
+      mtStatus = fault.mtStatus
+    } else if (success && this.mtQueue.length > 0) {
+      this.#logger.debug('Moving the next available MT message from the queue into the buffer')
+      this.#mtBuffer = this.mtQueue.pop()
+      this.#mtSequenceNo++
+
+      const trimmedMtBuffer = trimBuffer(this.mtBuffer)
+
+      mtStatus = 1
+      mtLength = trimmedMtBuffer.length
+    }
+
+    if (success) {
+      // TODO: Need to confirm with specification when this is disabled.
+      this.#ringAlertActive = false
+      this.#setModemLines({ ri: false })
+      this.#registrationStatus = RegistrationStatus.REGISTERED
+
+      // the sequence numbers and MT buffer have been updated
+      this.#saveState()
+    }
+
+    const moStatus = fault?.moStatus ?? (success ? 0 : 32)
+
+    if (dropped) this.#logger.warn('Dropping the SBD session response')
+
+    return { moStatus, mtStatus, mtLength, dropped }
+  }
+
+  /**
+   * Determines the outcome of a session with the gateway. The
+   * connection was successful if we still have 2 or more bars of
+   * signal. If we have 1 bar of signal then it should be a success
+   * 20% of the time.
+   */
+  #sessionSucceeded (): boolean {
+    return this.#serviceAvailable && (this.#currentSignalQuality >= 2 ||
+      (this.#currentSignalQuality === 1 && randomInterval(5, 10, this.#random) % 10 !== 0))
+  }
+
+  /**
+   * Updates the position reported by the network, as happens in each
+   * successful session with the gateway.
+   */
+  #updateGeolocation (): IridiumPosition {
+    const position = iridiumPosition(this.position, this.#currentSignalQuality, this.#random)
+
+    this.#geolocation = { ...position, systemTime: this.#networkClock.systemTime() }
+    return position
+  }
+
+  /**
+   * Signs the MO message and delivers it through the configured
+   * channels (sbd-message event, webhooks and DirectIP).
+   */
+  #deliverMOMessage (payload: Buffer, reportedPosition: IridiumPosition): void {
+    // match the rock7 service provider datetime format
+    let rbDateFormat = new Date(this.#clock.now()).toISOString()
+      .substring(2) // drop century
+      .replace('T', ' ') // drop time indicator
+      .replace('Z', '') // drop UTC timezone
+    rbDateFormat = rbDateFormat
+      .substring(0, rbDateFormat.length - 4) // drop milliseconds
+
+    this.#logger.debug('Emitting sbd-message event with message details')
+    const claims = {
+      momsn: this.#moSequenceNo,
+      data: payload.toString('hex'),
+      serial: this.#rockblockSerial,
+      iridium_latitude: reportedPosition.latitude,
+      iridium_longitude: reportedPosition.longitude,
+      iridium_cep: reportedPosition.cep,
+      imei: this.#imei,
+      device_type: 'ROCKBLOCK',
+      transmit_time: rbDateFormat
+    }
+
+    // sign the claims and send the message
+    const token = jwt.sign(claims, {
+      key: this.#jwtSignerKey,
+      ...this.#jwtSignerKeyPassphrase && {
+        passphrase: this.#jwtSignerKeyPassphrase
+      }
+    }, {
+      algorithm: 'RS256',
+      issuer: 'Rock 7'
+    })
+
+    const message = {
+      ...claims,
+      JWT: token
+    }
+
+    this.emit('sbd-message', message)
+    this.#webhooks?.deliver(message)
+    this.#directIp?.deliverMO({
+      header: {
+        imei: this.#imei,
+        sessionStatus: 0,
+        momsn: this.#moSequenceNo,
+        mtmsn: this.#mtSequenceNo,
+        timeOfSession: new Date(this.#clock.now())
+      },
+      payload,
+      location: {
+        latitude: claims.iridium_latitude,
+        longitude: claims.iridium_longitude,
+        cep: claims.iridium_cep
+      }
+    })
+  }
+
+  /**
+   * Sends a MO message received over JSPR in a session with the gateway.
+   */
+  #sendJsprMessage = async (topic: number, payload: Buffer): Promise<JsprMOStatus> => {
+    this.#logger.debug(`Initiating simulated JSPR session for topic ${topic}. Waiting ${Math.round(this.#longWaitTime / SECOND)} seconds...`)
+
+    await this.#delay(this.#longWaitTime)
+
+    if (!this.#serviceAvailable) return 'no_network_service'
+    if (this.#lockStatus !== LockStatus.UNLOCKED || this.#applyPendingLock()) return 'network_error'
+    if (!this.#sessionSucceeded()) return 'network_error'
+
+    this.#moSequenceNo++
+    this.#saveState()
+    this.#deliverMOMessage(payload, this.#updateGeolocation())
+
+    return 'mo_ack_received'
+  }
+
+  /**
+   * Retrieves the next MT message from the queue in a session with
+   * the gateway, for delivery over JSPR.
+   */
+  #receiveJsprMessage = async (): Promise<Buffer | null> => {
+    if (this.#mtQueue.length === 0) return null
+
+    await this.#delay(this.#longWaitTime)
+
+    if (!this.#serviceAvailable || this.#mtQueue.length === 0) return null
+
+    this.#logger.debug('Delivering the next available MT message from the queue over JSPR')
+    this.#mtSequenceNo++
+
+    const message = this.#mtQueue.pop() ?? null
+    this.#saveState()
+
+    return message
+  }
+
+  /**
+   * Applies a lock requested by the gateway once the device is in
+   * contact with it, returning true if the device is now locked.
+   */
+  #applyPendingLock (): boolean {
+    if (this.#pendingLock === null || !this.#serviceAvailable) return false
+
+    this.#lockStatus = this.#pendingLock
+    this.#pendingLock = null
+    this.#saveState()
+
+    this.#logger.warn(`Device ${this.#lockStatus === LockStatus.PERMANENTLY_LOCKED ? 'permanently ' : ''}locked by the gateway`)
+    return true
+  }
+
+  /**
+   * Simulates an SBD network registration, returning the
+   * registration error code.
+   */
+  #register = async (): Promise<number> => {
+    if (!this.#radioActivityEnabled) return 34
+    if (this.#lockStatus !== LockStatus.UNLOCKED) return 16
+
+    await this.#delay(this.#longWaitTime)
+
+    if (!this.#serviceAvailable) return 32
+    if (this.#applyPendingLock()) return 16
+
+    if (this.#registrationDenied) {
+      this.#registrationStatus = RegistrationStatus.DENIED
+      return 15
+    }
+
+    this.#registrationStatus = RegistrationStatus.REGISTERED
+    return 0
+  }
+
+  /**
+   * Performs or suggests a registration once the network becomes
+   * available, depending on the automatic registration mode.
+   */
+  #automaticRegistration = async (): Promise<void> => {
+    switch (this.#automaticRegistrationMode) {
+      case AutomaticRegistrationMode.ASK:
+        this.#logger.debug('Network available, suggesting SBD registration')
+        this.#write('+AREG:0,0')
+        break
+
+      case AutomaticRegistrationMode.AUTOMATIC: {
+        this.#logger.debug('Network available, performing automatic SBD registration')
+
+        const error = await this.#register()
+        this.#write(`+AREG:${error === 0 ? 2 : 3},${error}`)
+        break
+      }
+    }
+  }
+
+  /**
+   * Updates the signal quality from the configured signal model.
+   * The signal quality will be updated at the intervals specified
+   * by the model.
+   */
+  #updateSignalQuality = (): void => {
+    const current = this.#currentSignalQuality
+    const update = this.#radioActivityEnabled
+      ? this.#signalModel.sample(this.#clock.now(), this.#random)
+      : SignalQuality.NONE
+
+    const serviceAvailable = this.#radioActivityEnabled &&
+      (this.#signalModel.serviceAvailable?.() ?? update >= SignalQuality.ONE)
+
+    if (current !== update) {
+      this.#currentSignalQuality = update
+      this.#logger.debug(`Updated signal quality to '${update}'`)
+
+      if (this.#signalQualityIndicator) this.#write(`+CIEV:0,${update}`)
+    } else {
+      this.#logger.debug(`Signal quality remains as ${current}`)
+    }
+
+    if (serviceAvailable !== this.#serviceAvailable) {
+      this.#serviceAvailable = serviceAvailable
+      this.#logger.debug(`Network service is now ${serviceAvailable ? 'available' : 'unavailable'}`)
+
+      if (this.#serviceAvailabilityIndicator) this.#write(`+CIEV:1,${serviceAvailable ? 1 : 0}`)
+
+      this.emit('network-available', serviceAvailable)
+
+      if (serviceAvailable) this.#automaticRegistration()
+    }
+
+    this.#jspr?.updateConstellation(this.#currentSignalQuality, this.#serviceAvailable)
+
+    const waitTime = this.#signalModel.interval(this.#random)
+    this.#logger.debug(`Next signal quality update tick is in ${waitTime}ms`)
+
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const _this = this
+
+    this.#signalQualityTimeout = this.#clock.setTimeout(function () {
+      _this.#updateSignalQuality()
+    }, waitTime)
+  }
+
+  /**
+   * Adds message to the "remote" MT queue. Simulating the
+   * Iridium ground station.
+   */
+  addRemoteMTMessage = (buffer: Buffer): void => {
+    if (!buffer || buffer.length > this.#profile.maxMTLength) {
+      throw RangeError(`Expected buffer length to be <= ${this.#profile.maxMTLength} but was ${buffer.length ?? 0}`)
+    }
+
+    this.mtQueue.push(buffer)
+
+    this.#logger.debug(`New message added to MT queue. Current queue length is ${this.mtQueue.length}`)
+
+    this.#saveState()
+    this.#jspr?.deliverMT()
+
+    if (this.#ringAlertsEnabled && !this.#ringAlertActive) {
+      this.#logger.debug('Actived ring alert')
+
+      this.#ringAlertActive = true
+      this.#setModemLines({ ri: true })
+      this.#writeResult(ResultCode.SBDRING)
+    }
+  }
+
+  /**
+   * Locks the device from the gateway, as the carrier would. The lock
+   * takes effect in the next session with the gateway.
+   */
+  lockDevice = (permanent = false): void => {
+    this.#pendingLock = permanent ? LockStatus.PERMANENTLY_LOCKED : LockStatus.LOCKED
+
+    this.#logger.debug(`Gateway will ${permanent ? 'permanently ' : ''}lock the device in the next session`)
+  }
+
+  /**
+   * Removes any lock on the device, including a permanent lock.
+   */
+  unlockDevice = (): void => {
+    this.#pendingLock = null
+    this.#lockStatus = LockStatus.UNLOCKED
+    this.#saveState()
+
+    this.#logger.debug('Device unlocked by the gateway')
+  }
+
+  /**
+   * Removes all messages from the "remote" MT queue.
+   */
+  flushRemoteMTQueue = (): void => {
+    this.#mtQueue.length = 0
+    this.#saveState()
+
+    this.#logger.debug('Flushed the MT queue')
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Overrides the outcome of the next simulated SBD session.
+ */
+export type SessionFault = {
+  /** The +SBDIX MO status to report, 0-4 indicate the MO message was sent */
+  moStatus?: number
+  /** The +SBDIX MT status to report, 2 indicates an error checking the mailbox */
+  mtStatus?: number
+  /** Additional time in milliseconds the session takes to complete */
+  delay?: number
+  /** Indicates the session response should never be written to the DTE */
+  dropResponse?: boolean
+}
+
+/**
+ * Corrupts the next binary message read by the DTE using AT+SBDRB.
+ */
+export type ReadBinaryFault = {
+  /** Indicates the checksum should not match the message */
+  corruptChecksum?: boolean
+  /** Number of bytes to write before the transfer is cut short */
+  truncate?: number
+}
+
+/**
+ * Queues of faults to inject into the emulator, consumed in
+ * order by the commands they apply to.
+ */
+export class FaultInjector {
+  #sessionFaults: SessionFault[] = []
+
+  get sessionFaults () {
+    return this.#sessionFaults
+  }
+
+  #readBinaryFaults: ReadBinaryFault[] = []
+
+  get readBinaryFaults () {
+    return this.#readBinaryFaults
+  }
+
+  /**
+   * Queues a fault for the next SBD session (AT+SBDIX[A] or AT+SBDI).
+   */
+  injectSessionFault = (fault: SessionFault): void => {
+    this.#sessionFaults.push(fault)
+  }
+
+  /**
+   * Queues a fault for the next AT+SBDRB transfer.
+   */
+  injectReadBinaryFault = (fault: ReadBinaryFault): void => {
+    this.#readBinaryFaults.push(fault)
+  }
+
+  /**
+   * Removes all pending faults.
+   */
+  clear = (): void => {
+    this.#sessionFaults.length = 0
+    this.#readBinaryFaults.length = 0
+  }
+
+  nextSessionFault (): SessionFault | null {
+    return this.#sessionFaults.shift() ?? null
+  }
+
+  nextReadBinaryFault (): ReadBinaryFault | null {
+    return this.#readBinaryFaults.shift() ?? null
+  }
+}
@@ -0,0 +1,126 @@
+import assert from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { VirtualClock } from './clock'
+import { fleetImei, IridiumFleet } from './fleet'
+import { SignalQualityRating } from './signal'
+import { START_TIME, testSignerKey } from './testing/harness'
+import { MemoryTransport } from './transports'
+
+/** Options for a fleet member driven over a memory transport */
+function member () {
+  return {
+    transport: new MemoryTransport(),
+    clock: new VirtualClock(START_TIME),
+    signalQualityRating: SignalQualityRating.EXCELLENT,
+    seed: 1
+  }
+}
+
+/** Returns true when the digits pass the Luhn check */
+function isLuhnValid (digits: string) {
+  const sum = digits.split('').reverse().reduce((sum, digit, i) => {
+    const value = Number(digit) * (i % 2 === 1 ? 2 : 1)
+    return sum + (value > 9 ? value - 9 : value)
+  }, 0)
+
+  return sum % 10 === 0
+}
+
+describe('fleetImei', () => {
+  it('generates valid 15 digit IMEIs', () => {
+    for (const index of [0, 1, 42, 999999]) {
+      const imei = fleetImei(index)
+
+      assert.match(imei, /^30053406\d{7}$/)
+      assert.ok(isLuhnValid(imei), imei)
+    }
+  })
+
+  it('rejects an index too large for the prefix', () => {
+    assert.throws(() => fleetImei(1000000), RangeError)
+  })
+})
+
+describe('IridiumFleet', () => {
+  let fleet: IridiumFleet
+
+  beforeEach(async () => {
+    fleet = new IridiumFleet({
+      jwtSignerKey: testSignerKey(),
+      rockblockMTServer: { port: 0, username: 'user', password: 'secret' }
+    })
+    await fleet.listen()
+  })
+
+  afterEach(async () => {
+    await fleet.close()
+  })
+
+  /** Posts an MT message to the shared RockBLOCK MT web service */
+  async function post (imei: string, data: string) {
+    const response = await fetch(`http://127.0.0.1:${fleet.mtServer?.port}/rockblock/MT`, {
+      method: 'POST',
+      body: new URLSearchParams({ imei, username: 'user', password: 'secret', data })
+    })
+
+    return response.text()
+  }
+
+  it('gives spawned emulators sequential identities', async () => {
+    const emulators = await fleet.spawn(3, member)
+
+    assert.deepStrictEqual(emulators.map((emulator) => emulator.imei), [0, 1, 2].map((index) => fleetImei(index)))
+    assert.deepStrictEqual(emulators.map((emulator) => emulator.rockblockSerial), [200000, 200001, 200002])
+    assert.strictEqual(fleet.size, 3)
+  })
+
+  it('does not reuse the identity of a removed emulator', async () => {
+    const [first] = await fleet.spawn(2, member)
+    await fleet.remove(first.imei)
+
+    const added = await fleet.add(member())
+
+    assert.strictEqual(added.imei, fleetImei(2))
+    assert.strictEqual(fleet.get(first.imei), undefined)
+  })
+
+  it('skips identities given to emulators explicitly', async () => {
+    await fleet.add({ ...member(), imei: fleetImei(0) })
+    const [spawned] = await fleet.spawn(1, member)
+
+    assert.strictEqual(spawned.imei, fleetImei(1))
+    await assert.rejects(fleet.add({ ...member(), imei: fleetImei(0) }), TypeError)
+  })
+
+  it('routes MT messages to the emulator with the matching IMEI', async () => {
+    const [first, second] = await fleet.spawn(2, member)
+
+    assert.strictEqual(await post(second.imei, '6869'), 'OK,1')
+    assert.match(await post(fleetImei(99), '6869'), /^FAILED,11,/)
+
+    assert.strictEqual(first.mtQueue.length, 0)
+    assert.deepStrictEqual(second.mtQueue, [Buffer.from('hi')])
+  })
+
+  it('limits MT messages to the length supported by each member', async () => {
+    const [small, large] = await fleet.spawn(2, (index) => ({ ...member(), profile: index === 0 ? '9603' : '9522B' }))
+    const data = Buffer.alloc(300).toString('hex')
+
+    assert.match(await post(small.imei, data), /^FAILED,15,/)
+    assert.match(await post(large.imei, data), /^OK,/)
+  })
+
+  it('forwards the MO messages of its members', async () => {
+    const options = member()
+    const [emulator] = await fleet.spawn(1, () => options)
+    const sent = new Promise<[string, string]>((resolve) => fleet.once('sbd-message', (imei, message) => resolve([imei, message.data])))
+
+    options.transport.dte.write('AT+SBDWT=hi\r')
+    await options.clock.advance(1000)
+    options.transport.dte.write('AT+SBDIX\r')
+    await options.clock.advance(60 * 1000)
+
+    assert.deepStrictEqual(await sent, [emulator.imei, '6869'])
+  })
+})
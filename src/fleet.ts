@@ -0,0 +1,259 @@
+import { generateKeyPair } from 'crypto'
+import { TypedEmitter } from 'tiny-typed-emitter'
+import { IridiumEmulator, IridiumEmulatorOptions, LogEvent, SBDMessage } from './emulator'
+import { RockBlockMTRequest, RockBlockMTResponse, RockBlockMTServer } from './rockblock'
+
+export type IridiumFleetOptions = {
+  /** Shared RockBLOCK MT web service, routing messages by IMEI */
+  rockblockMTServer?: { port: number, host?: string, username: string, password: string }
+  /** Path to, or contents of, the PEM encoded private key shared by all emulators */
+  jwtSignerKey?: string
+  jwtSignerKeyPassphrase?: string
+}
+
+export type FleetSignerKey = {
+  publicKey: string | null
+  privateKey: string
+  passphrase?: string
+}
+
+export interface IridiumFleetInterface {
+  'log': (imei: string, event: LogEvent) => void
+  'sbd-message': (imei: string, message: SBDMessage) => void
+  'signer-key-generated': (key: FleetSignerKey) => void
+  'emulator-added': (emulator: IridiumEmulator) => void
+  'emulator-removed': (emulator: IridiumEmulator) => void
+  'mt-request': (request: RockBlockMTRequest, response: RockBlockMTResponse) => void
+  'error': (error: Error) => void
+}
+
+/**
+ * Calculates the Luhn check digit of a numeric string.
+ */
+function luhnCheckDigit (digits: string) {
+  let sum = 0
+
+  for (let i = 0; i < digits.length; i++) {
+    // double every second digit, starting from the right most digit
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 0) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+
+  return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Generates a valid 15 digit IMEI from a 14 digit prefix
+ * (TAC and serial) by appending the Luhn check digit.
+ */
+export function fleetImei (index: number, prefix = '30053406') {
+  const digits = prefix + index.toString().padStart(14 - prefix.length, '0')
+
+  if (!/^\d{14}$/.test(digits)) {
+    throw RangeError(`Unable to generate IMEI for index ${index} with prefix ${prefix}`)
+  }
+
+  return digits + luhnCheckDigit(digits)
+}
+
+/**
+ * Manages a fleet of emulators, each with its own transport and
+ * identity, behind a shared simulated gateway which routes Mobile
+ * Terminated (MT) messages to the emulator with the matching IMEI.
+ */
+export class IridiumFleet extends TypedEmitter<IridiumFleetInterface> {
+  /** Emulators of the fleet, keyed by IMEI */
+  #emulators = new Map<string, IridiumEmulator>()
+
+  get emulators () {
+    return Array.from(this.#emulators.values())
+  }
+
+  get size () {
+    return this.#emulators.size
+  }
+
+  /** Index of the next generated identity, never reused after a removal */
+  #nextIndex = 0
+
+  #mtServer: RockBlockMTServer | null = null
+
+  get mtServer () {
+    return this.#mtServer
+  }
+
+  /** Signer key shared by all emulators, generated once when not provided */
+  #signerKey: Promise<FleetSignerKey>
+
+  constructor ({
+    rockblockMTServer,
+    jwtSignerKey,
+    jwtSignerKeyPassphrase
+  }: IridiumFleetOptions = {}) {
+    super()
+
+    if (jwtSignerKey) {
+      this.#signerKey = Promise.resolve({ publicKey: null, privateKey: jwtSignerKey, passphrase: jwtSignerKeyPassphrase })
+    } else {
+      this.#signerKey = this.#generateSignerKey()
+    }
+
+    if (rockblockMTServer) {
+      this.#mtServer = new RockBlockMTServer({
+        ...rockblockMTServer,
+        imei: (imei) => this.#emulators.has(imei),
+        maxMessageLength: (imei) => this.#emulators.get(imei)?.profile.maxMTLength ?? 0
+      })
+
+      this.#mtServer.on('mt-message', (data, id, imei) => this.#emulators.get(imei)?.addRemoteMTMessage(data))
+      this.#mtServer.on('flush', (imei) => this.#emulators.get(imei)?.flushRemoteMTQueue())
+      this.#mtServer.on('request', (request, response) => this.emit('mt-request', request, response))
+      this.#mtServer.on('error', (error) => this.emit('error', error))
+    }
+  }
+
+  /**
+   * Starts the shared gateway services.
+   */
+  listen = async (): Promise<void> => {
+    await this.#mtServer?.listen()
+  }
+
+  /**
+   * Creates a new emulator in the fleet. The shared gateway and
+   * signer key replace the per emulator options.
+   */
+  add = async (options: Omit<IridiumEmulatorOptions, 'rockblockMTServer'>): Promise<IridiumEmulator> => {
+    const signerKey = await this.#signerKey
+    const imei = options.imei ?? fleetImei(this.#allocateIndex())
+
+    if (this.#emulators.has(imei)) {
+      throw TypeError(`An emulator with IMEI ${imei} already exists in the fleet`)
+    }
+
+    const emulator = new IridiumEmulator({
+      ...options,
+      imei,
+      jwtSignerKey: options.jwtSignerKey ?? signerKey.privateKey,
+      jwtSignerKeyPassphrase: options.jwtSignerKey ? options.jwtSignerKeyPassphrase : signerKey.passphrase
+    })
+
+    emulator.on('log', (event) => this.emit('log', imei, event))
+    emulator.on('sbd-message', (message) => this.emit('sbd-message', imei, message))
+
+    this.#emulators.set(imei, emulator)
+    this.emit('emulator-added', emulator)
+
+    return emulator
+  }
+
+  /**
+   * Creates `count` emulators, using `factory` to provide the options
+   * (at least the transport) of each. Emulators are given sequential
+   * IMEIs and serial numbers unless the factory provides them.
+   */
+  spawn = async (
+    count: number,
+    factory: (index: number) => Omit<IridiumEmulatorOptions, 'rockblockMTServer'>
+  ): Promise<IridiumEmulator[]> => {
+    const emulators: IridiumEmulator[] = []
+
+    for (let index = 0; index < count; index++) {
+      const options = factory(index)
+      const identity = this.#allocateIndex()
+
+      emulators.push(await this.add({
+        serialNumber: (10000000000000 + identity).toString(),
+        rockblockSerial: 200000 + identity,
+        ...options,
+        imei: options.imei ?? fleetImei(identity)
+      }))
+    }
+
+    return emulators
+  }
+
+  /**
+   * Allocates the index of the next generated identity, skipping any
+   * index whose IMEI has been given to an emulator explicitly.
+   */
+  #allocateIndex (): number {
+    while (this.#emulators.has(fleetImei(this.#nextIndex))) this.#nextIndex++
+
+    return this.#nextIndex++
+  }
+
+  get = (imei: string): IridiumEmulator | undefined => {
+    return this.#emulators.get(imei)
+  }
+
+  /**
+   * Adds a message to the MT queue of the emulator with the given IMEI.
+   */
+  addRemoteMTMessage = (imei: string, buffer: Buffer): void => {
+    const emulator = this.#emulators.get(imei)
+
+    if (!emulator) {
+      throw TypeError(`No emulator with IMEI ${imei} in the fleet`)
+    }
+
+    emulator.addRemoteMTMessage(buffer)
+  }
+
+  /**
+   * Closes and removes the emulator with the given IMEI.
+   */
+  remove = async (imei: string): Promise<void> => {
+    const emulator = this.#emulators.get(imei)
+    if (!emulator) return
+
+    this.#emulators.delete(imei)
+    await emulator.close()
+    emulator.removeAllListeners()
+
+    this.emit('emulator-removed', emulator)
+  }
+
+  /**
+   * Closes all emulators and the shared gateway services.
+   */
+  close = async (): Promise<void> => {
+    for (const imei of Array.from(this.#emulators.keys())) {
+      await this.remove(imei)
+    }
+
+    await this.#mtServer?.close()
+  }
+
+  #generateSignerKey (): Promise<FleetSignerKey> {
+    const passphrase = Math.random().toString(36).slice(-8)
+
+    return new Promise((resolve, reject) => {
+      generateKeyPair('rsa', {
+        modulusLength: 4096,
+        publicKeyEncoding: {
+          type: 'spki',
+          format: 'pem'
+        },
+        privateKeyEncoding: {
+          type: 'pkcs8',
+          format: 'pem',
+          cipher: 'aes-256-cbc',
+          passphrase
+        }
+      }, (error, publicKey, privateKey) => {
+        if (error) return reject(error)
+
+        const key = { publicKey, privateKey, passphrase }
+
+        // notify the shared public/private key pair
+        this.emit('signer-key-generated', key)
+        resolve(key)
+      })
+    })
+  }
+}
@@ -0,0 +1,50 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { formatJsprMessage, isJsprVersion, JSPR_MAX_REQUEST_LENGTH, JsprResponseCode, parseJsprRequest, parseJsprVersion } from './protocol'
+
+describe('parseJsprRequest', () => {
+  it('parses the method, target and body', () => {
+    assert.deepStrictEqual(parseJsprRequest('PUT apiVersion {"active_version":{"major":1}}'), {
+      method: 'PUT',
+      target: 'apiVersion',
+      body: { active_version: { major: 1 } }
+    })
+  })
+
+  it('defaults to an empty body', () => {
+    assert.deepStrictEqual(parseJsprRequest('GET hwInfo'), { method: 'GET', target: 'hwInfo', body: {} })
+  })
+
+  it('returns the response code of an invalid request', () => {
+    assert.deepStrictEqual(parseJsprRequest('AT+CSQ'), { target: '', error: JsprResponseCode.COMMAND_MALFORMED })
+    assert.deepStrictEqual(parseJsprRequest('POST hwInfo {}'), { target: 'hwInfo', error: JsprResponseCode.UNSUPPORTED_REQUEST_TYPE })
+    assert.deepStrictEqual(parseJsprRequest('GET hwInfo {'), { target: 'hwInfo', error: JsprResponseCode.MALFORMED_JSON })
+    assert.deepStrictEqual(parseJsprRequest('GET hwInfo [1]'), { target: 'hwInfo', error: JsprResponseCode.MALFORMED_JSON })
+  })
+
+  it('rejects a request longer than the maximum length', () => {
+    const line = `PUT messageOriginate {"data":"${'a'.repeat(JSPR_MAX_REQUEST_LENGTH)}"}`
+    assert.deepStrictEqual(parseJsprRequest(line), { target: 'messageOriginate', error: JsprResponseCode.COMMAND_TOO_LONG })
+  })
+})
+
+describe('formatJsprMessage', () => {
+  it('formats the code, target and body', () => {
+    assert.strictEqual(formatJsprMessage(JsprResponseCode.OK, 'simConfig', { interface: 'internal' }), '200 simConfig {"interface":"internal"}')
+    assert.strictEqual(formatJsprMessage(JsprResponseCode.UNKNOWN_TARGET, 'x'), '404 x {}')
+  })
+})
+
+describe('JSPR versions', () => {
+  it('parses version strings', () => {
+    assert.deepStrictEqual(parseJsprVersion('5.4.0'), { major: 5, minor: 4, patch: 0 })
+    assert.deepStrictEqual(parseJsprVersion('2'), { major: 2, minor: 0, patch: 0 })
+  })
+
+  it('narrows version objects', () => {
+    assert.ok(isJsprVersion({ major: 1, minor: 6, patch: 0 }))
+    assert.ok(!isJsprVersion({ major: 1, minor: '6', patch: 0 }))
+    assert.ok(!isJsprVersion(null))
+  })
+})
@@ -0,0 +1,95 @@
+/* eslint-disable no-unused-vars */
+
+/** Response codes of the JSPR serial protocol */
+export enum JsprResponseCode {
+  OK = 200,
+  UNSOLICITED = 299,
+  API_VERSION_NOT_SELECTED = 400,
+  UNSUPPORTED_REQUEST_TYPE = 401,
+  COMMAND_MALFORMED = 402,
+  COMMAND_TOO_LONG = 403,
+  UNKNOWN_TARGET = 404,
+  MALFORMED_JSON = 405,
+  INVALID_JSON_FIELD = 406,
+  INVALID_STATE = 407,
+  UNKNOWN_ERROR = 500
+}
+
+export type JsprMethod = 'GET' | 'PUT'
+
+export type JsprRequest = {
+  method: JsprMethod
+  target: string
+  body: Record<string, unknown>
+}
+
+export type JsprVersion = {
+  major: number
+  minor: number
+  patch: number
+}
+
+/** Maximum length of a single JSPR request line */
+export const JSPR_MAX_REQUEST_LENGTH = 4096
+
+/**
+ * Parses a JSPR request line of the form `<method> <target> <json>`,
+ * returning the response code of the error when the line is invalid.
+ */
+export function parseJsprRequest (line: string): JsprRequest | { target: string, error: JsprResponseCode } {
+  const match = /^(\S+)\s+([A-Za-z]+)\s*(.*)$/.exec(line.trim())
+
+  if (!match) {
+    return { target: '', error: JsprResponseCode.COMMAND_MALFORMED }
+  }
+
+  const [, method, target, json] = match
+
+  if (line.length > JSPR_MAX_REQUEST_LENGTH) {
+    return { target, error: JsprResponseCode.COMMAND_TOO_LONG }
+  }
+
+  if (method !== 'GET' && method !== 'PUT') {
+    return { target, error: JsprResponseCode.UNSUPPORTED_REQUEST_TYPE }
+  }
+
+  let body: unknown = {}
+  if (json !== '') {
+    try {
+      body = JSON.parse(json)
+    } catch (error) {
+      return { target, error: JsprResponseCode.MALFORMED_JSON }
+    }
+  }
+
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    return { target, error: JsprResponseCode.MALFORMED_JSON }
+  }
+
+  return { method, target, body: body as Record<string, unknown> }
+}
+
+/**
+ * Formats a JSPR response or unsolicited message line.
+ */
+export function formatJsprMessage (code: JsprResponseCode, target: string, body: Record<string, unknown> = {}) {
+  return `${code} ${target} ${JSON.stringify(body)}`
+}
+
+/**
+ * Narrows a field of a JSPR request body to a version object.
+ */
+export function isJsprVersion (value: unknown): value is JsprVersion {
+  if (value === null || typeof value !== 'object') return false
+
+  const { major, minor, patch } = value as Record<string, unknown>
+  return typeof major === 'number' && typeof minor === 'number' && typeof patch === 'number'
+}
+
+/**
+ * Parses a `major.minor.patch` version string.
+ */
+export function parseJsprVersion (version: string): JsprVersion {
+  const [major = 0, minor = 0, patch = 0] = version.split('.').map((part) => parseInt(part) || 0)
+  return { major, minor, patch }
+}
@@ -0,0 +1,142 @@
+import assert from 'assert'
+import { beforeEach, describe, it } from 'node:test'
+
+import { JsprMOStatus, JsprSession } from './session'
+
+describe('JsprSession', () => {
+  let session: JsprSession
+  let lines: string[]
+  let sent: [number, Buffer][]
+  let mtQueue: Buffer[]
+  let moStatus: JsprMOStatus
+
+  /** Sends a request, returning the code, target and body of each line written */
+  async function request (line: string) {
+    lines = []
+    await session.handleLine(line)
+
+    return lines.map((line) => {
+      const [, code, target, body] = /^(\d+) (\S+) (.*)$/.exec(line) ?? []
+      return { code: Number(code), target, body: JSON.parse(body) }
+    })
+  }
+
+  /** Selects the API version and activates the radio */
+  async function activate () {
+    await request('PUT apiVersion {"active_version":{"major":1,"minor":6,"patch":0}}')
+    await request('PUT operationalState {"state":"active"}')
+  }
+
+  beforeEach(() => {
+    lines = []
+    sent = []
+    mtQueue = []
+    moStatus = 'mo_ack_received'
+
+    session = new JsprSession({
+      imei: '300534062390910',
+      serialNumber: '12345',
+      hardwareVersion: 'RB9704-A',
+      firmwareVersion: '5.4.0',
+      iccid: '8988169',
+      maxMessageLength: 100,
+      segmentLength: 4,
+      write: (line) => lines.push(line),
+      sendMO: async (topic, payload) => {
+        sent.push([topic, payload])
+        return moStatus
+      },
+      receiveMT: async () => mtQueue.shift() ?? null
+    })
+  })
+
+  it('requires an API version to be selected first', async () => {
+    assert.deepStrictEqual((await request('GET hwInfo'))[0].code, 400)
+    assert.deepStrictEqual((await request('PUT apiVersion {"active_version":{"major":9,"minor":0,"patch":0}}'))[0].code, 406)
+
+    const [selected] = await request('PUT apiVersion {"active_version":{"major":1,"minor":6,"patch":0}}')
+    assert.strictEqual(selected.code, 200)
+    assert.deepStrictEqual(selected.body.active_version, { major: 1, minor: 6, patch: 0 })
+
+    const [info] = await request('GET hwInfo')
+    assert.strictEqual(info.body.imei, '300534062390910')
+  })
+
+  it('responds to unknown targets and unsupported methods', async () => {
+    await activate()
+
+    assert.strictEqual((await request('GET nothing'))[0].code, 404)
+    assert.strictEqual((await request('PUT hwInfo {}'))[0].code, 401)
+  })
+
+  it('reports the SIM as absent when its interface is none', async () => {
+    await activate()
+    await request('PUT simConfig {"interface":"none"}')
+
+    const [status] = await request('GET simStatus')
+    assert.deepStrictEqual(status.body, { card_present: false, sim_connected: false, iccid: '' })
+  })
+
+  it('transfers an MO message in segments and reports its status', async () => {
+    await activate()
+
+    const accepted = await request('PUT messageOriginate {"topic_id":244,"message_length":6,"request_reference":3}')
+    assert.deepStrictEqual(accepted.map((line) => line.target), ['messageOriginate', 'messageOriginateSegment'])
+    assert.strictEqual(accepted[0].body.request_reference, 3)
+    assert.deepStrictEqual(accepted[1].body, { topic_id: 244, message_id: 1, segment_length: 4, segment_start: 0 })
+
+    const first = await request(`PUT messageOriginateSegment {"topic_id":244,"message_id":1,"segment_length":4,"segment_start":0,"data":"${Buffer.from('hell').toString('base64')}"}`)
+    assert.deepStrictEqual(first[1].body.segment_start, 4)
+
+    const last = await request(`PUT messageOriginateSegment {"topic_id":244,"message_id":1,"segment_length":2,"segment_start":4,"data":"${Buffer.from('o!').toString('base64')}"}`)
+    assert.deepStrictEqual(last[1], {
+      code: 299,
+      target: 'messageOriginateStatus',
+      body: { topic_id: 244, message_id: 1, final_mo_status: 'mo_ack_received' }
+    })
+    assert.deepStrictEqual(sent, [[244, Buffer.from('hello!')]])
+  })
+
+  it('rejects an MO message while the radio is inactive or for an unknown topic', async () => {
+    await request('PUT apiVersion {"active_version":{"major":1,"minor":6,"patch":0}}')
+
+    assert.strictEqual((await request('PUT messageOriginate {"topic_id":244,"message_length":1}'))[0].code, 407)
+    await request('PUT operationalState {"state":"active"}')
+    assert.strictEqual((await request('PUT messageOriginate {"topic_id":1,"message_length":1}'))[0].code, 406)
+    assert.strictEqual((await request('PUT messageOriginate {"topic_id":244,"message_length":101}'))[0].code, 406)
+  })
+
+  it('rejects a segment out of order', async () => {
+    await activate()
+    await request('PUT messageOriginate {"topic_id":244,"message_length":6}')
+
+    const [response] = await request(`PUT messageOriginateSegment {"topic_id":244,"message_id":1,"segment_length":2,"segment_start":4,"data":"${Buffer.from('o!').toString('base64')}"}`)
+    assert.strictEqual(response.code, 406)
+  })
+
+  it('delivers MT messages in segments once the radio is active', async () => {
+    mtQueue.push(Buffer.from('hello!'))
+    await request('PUT apiVersion {"active_version":{"major":1,"minor":6,"patch":0}}')
+
+    lines = []
+    await session.handleLine('PUT operationalState {"state":"active"}')
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const messages = lines.slice(1).map((line) => JSON.parse(line.slice(line.indexOf('{'))))
+    assert.deepStrictEqual(lines.slice(1).map((line) => line.split(' ')[1]),
+      ['messageTerminate', 'messageTerminateSegment', 'messageTerminateSegment', 'messageTerminateStatus'])
+    assert.strictEqual(messages[0].message_length, 6)
+    assert.strictEqual(Buffer.concat(messages.slice(1, 3).map((segment) => Buffer.from(segment.data, 'base64'))).toString(), 'hello!')
+    assert.strictEqual(messages[3].final_mt_status, 'complete')
+  })
+
+  it('notifies the host of constellation changes', async () => {
+    await activate()
+
+    lines = []
+    session.updateConstellation(3, true)
+    session.updateConstellation(3, true)
+
+    assert.deepStrictEqual(lines, ['299 constellationState {"constellation_visible":true,"signal_bars":3,"signal_level":-110}'])
+  })
+})
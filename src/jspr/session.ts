@@ -0,0 +1,461 @@
+import {
+  formatJsprMessage,
+  isJsprVersion,
+  JsprRequest,
+  JsprResponseCode,
+  JsprVersion,
+  parseJsprRequest,
+  parseJsprVersion
+} from './protocol'
+
+export type JsprTopic = {
+  id: number
+  name: string
+  priority: 'low' | 'medium' | 'high'
+}
+
+export type JsprSimInterface = 'internal' | 'external' | 'none'
+
+export type JsprOperationalState = 'active' | 'inactive'
+
+/** Final status of a Mobile Originated (MO) message */
+export type JsprMOStatus = 'mo_ack_received' | 'no_network_service' | 'network_error'
+
+/** API versions supported by the emulated JSPR firmware */
+export const JSPR_SUPPORTED_VERSIONS: JsprVersion[] = [
+  { major: 1, minor: 6, patch: 0 }
+]
+
+/** Topics provisioned on the device by default */
+export const JSPR_DEFAULT_TOPICS: JsprTopic[] = [
+  { id: 244, name: 'RAW', priority: 'low' }
+]
+
+type OutboundMessage = {
+  topic: number
+  id: number
+  data: Buffer
+  received: number
+}
+
+/**
+ * Implements the device side of the JSON based JSPR serial protocol
+ * spoken by the RockBLOCK 9704. Requests are answered as they are
+ * received, messages are transferred in segments and the results of
+ * network activity are reported as unsolicited messages.
+ */
+export class JsprSession {
+  #imei: string
+
+  #serialNumber: string
+
+  #hardwareVersion: string
+
+  #firmwareVersion: JsprVersion
+
+  #iccid: string
+
+  #topics: JsprTopic[]
+
+  #maxMessageLength: number
+
+  #segmentLength: number
+
+  #write: (line: string) => void
+
+  #sendMO: (topic: number, payload: Buffer) => Promise<JsprMOStatus>
+
+  #receiveMT: () => Promise<Buffer | null>
+
+  /** The API version selected by the host */
+  #activeVersion: JsprVersion | null = null
+
+  get activeVersion () {
+    return this.#activeVersion
+  }
+
+  #operationalState: JsprOperationalState = 'inactive'
+
+  get operationalState () {
+    return this.#operationalState
+  }
+
+  #simInterface: JsprSimInterface = 'internal'
+
+  get simInterface () {
+    return this.#simInterface
+  }
+
+  #signalBars = 0
+
+  #constellationVisible = false
+
+  /** The MO message currently being transferred from the host */
+  #outbound: OutboundMessage | null = null
+
+  #messageId = 0
+
+  /** Indicates if MT messages are currently being delivered to the host */
+  #receiving = false
+
+  constructor ({
+    imei,
+    serialNumber,
+    hardwareVersion,
+    firmwareVersion,
+    iccid,
+    topics = JSPR_DEFAULT_TOPICS,
+    maxMessageLength,
+    segmentLength = 1446,
+    write,
+    sendMO,
+    receiveMT
+  }: {
+    imei: string,
+    serialNumber: string,
+    hardwareVersion: string,
+    firmwareVersion: string,
+    iccid: string,
+    topics?: JsprTopic[],
+    maxMessageLength: number,
+    segmentLength?: number,
+    write: (line: string) => void,
+    sendMO: (topic: number, payload: Buffer) => Promise<JsprMOStatus>,
+    receiveMT: () => Promise<Buffer | null>
+  }) {
+    this.#imei = imei
+    this.#serialNumber = serialNumber
+    this.#hardwareVersion = hardwareVersion
+    this.#firmwareVersion = parseJsprVersion(firmwareVersion)
+    this.#iccid = iccid
+    this.#topics = topics
+    this.#maxMessageLength = maxMessageLength
+    this.#segmentLength = segmentLength
+    this.#write = write
+    this.#sendMO = sendMO
+    this.#receiveMT = receiveMT
+  }
+
+  /**
+   * Handles a request line received from the host.
+   */
+  handleLine = async (line: string): Promise<void> => {
+    if (line.trim() === '') return
+
+    const request = parseJsprRequest(line)
+
+    if ('error' in request) {
+      this.#respond(request.error, request.target)
+      return
+    }
+
+    if (this.#activeVersion === null && request.target !== 'apiVersion') {
+      this.#respond(JsprResponseCode.API_VERSION_NOT_SELECTED, request.target)
+      return
+    }
+
+    await this.#handleRequest(request)
+  }
+
+  /**
+   * Updates the state of the constellation, notifying the host
+   * when it changes.
+   */
+  updateConstellation = (signalBars: number, visible: boolean): void => {
+    if (signalBars === this.#signalBars && visible === this.#constellationVisible) return
+
+    this.#signalBars = signalBars
+    this.#constellationVisible = visible
+
+    if (this.#activeVersion !== null) {
+      this.#respond(JsprResponseCode.UNSOLICITED, 'constellationState', this.#constellationState())
+    }
+
+    if (visible) this.deliverMT()
+  }
+
+  /**
+   * Delivers any waiting MT messages to the host.
+   */
+  deliverMT = async (): Promise<void> => {
+    if (this.#receiving || this.#operationalState !== 'active' || this.#simInterface === 'none') return
+
+    this.#receiving = true
+
+    try {
+      let payload: Buffer | null
+      while (this.#operationalState === 'active' && (payload = await this.#receiveMT()) !== null) {
+        this.#deliverMessage(payload)
+      }
+    } finally {
+      this.#receiving = false
+    }
+  }
+
+  #respond (code: JsprResponseCode, target: string, body: Record<string, unknown> = {}) {
+    this.#write(formatJsprMessage(code, target, body))
+  }
+
+  #handleRequest = async (request: JsprRequest): Promise<void> => {
+    const { method, target, body } = request
+
+    switch (`${method} ${target}`) {
+      case 'GET apiVersion':
+        this.#respond(JsprResponseCode.OK, target, this.#apiVersion())
+        break
+
+      case 'PUT apiVersion': {
+        const version = body.active_version
+        const supported = isJsprVersion(version)
+          ? JSPR_SUPPORTED_VERSIONS.find((supported) =>
+            supported.major === version.major && supported.minor === version.minor && supported.patch === version.patch)
+          : undefined
+
+        if (!supported) {
+          this.#respond(JsprResponseCode.INVALID_JSON_FIELD, target)
+          break
+        }
+
+        this.#activeVersion = supported
+        this.#respond(JsprResponseCode.OK, target, this.#apiVersion())
+        break
+      }
+
+      case 'GET simConfig':
+        this.#respond(JsprResponseCode.OK, target, { interface: this.#simInterface })
+        break
+
+      case 'PUT simConfig': {
+        const simInterface = body.interface
+
+        if (simInterface !== 'internal' && simInterface !== 'external' && simInterface !== 'none') {
+          this.#respond(JsprResponseCode.INVALID_JSON_FIELD, target)
+          break
+        }
+
+        this.#simInterface = simInterface
+        this.#respond(JsprResponseCode.OK, target, { interface: this.#simInterface })
+        break
+      }
+
+      case 'GET simStatus': {
+        const connected = this.#simInterface !== 'none'
+
+        this.#respond(JsprResponseCode.OK, target, {
+          card_present: connected,
+          sim_connected: connected,
+          iccid: connected ? this.#iccid : ''
+        })
+        break
+      }
+
+      case 'GET operationalState':
+        this.#respond(JsprResponseCode.OK, target, { state: this.#operationalState })
+        break
+
+      case 'PUT operationalState': {
+        const state = body.state
+
+        if (state !== 'active' && state !== 'inactive') {
+          this.#respond(JsprResponseCode.INVALID_JSON_FIELD, target)
+          break
+        }
+
+        this.#operationalState = state
+        this.#respond(JsprResponseCode.OK, target, { state: this.#operationalState })
+
+        if (this.#operationalState === 'active') this.deliverMT()
+        break
+      }
+
+      case 'GET hwInfo':
+        this.#respond(JsprResponseCode.OK, target, {
+          hw_version: this.#hardwareVersion,
+          serial_number: this.#serialNumber,
+          imei: this.#imei,
+          board_temp: 25
+        })
+        break
+
+      case 'GET firmware': {
+        const slot = body.slot ?? 'primary'
+
+        if (slot !== 'primary' && slot !== 'secondary') {
+          this.#respond(JsprResponseCode.INVALID_JSON_FIELD, target)
+          break
+        }
+
+        this.#respond(JsprResponseCode.OK, target, {
+          slot,
+          validity: true,
+          version: this.#firmwareVersion
+        })
+        break
+      }
+
+      case 'GET constellationState':
+        this.#respond(JsprResponseCode.OK, target, this.#constellationState())
+        break
+
+      case 'GET messageProvisioning':
+        this.#respond(JsprResponseCode.OK, target, {
+          provisioning: this.#topics.map((topic) => ({
+            topic_id: topic.id,
+            topic_name: topic.name,
+            priority: topic.priority,
+            discard_time_seconds: 604800,
+            max_queue_depth: 99
+          }))
+        })
+        break
+
+      case 'PUT messageOriginate':
+        this.#originate(body)
+        break
+
+      case 'PUT messageOriginateSegment':
+        await this.#originateSegment(body)
+        break
+
+      default:
+        this.#respond(
+          ['apiVersion', 'simConfig', 'simStatus', 'operationalState', 'hwInfo', 'firmware', 'constellationState',
+            'messageProvisioning', 'messageOriginate', 'messageOriginateSegment'].includes(target)
+            ? JsprResponseCode.UNSUPPORTED_REQUEST_TYPE
+            : JsprResponseCode.UNKNOWN_TARGET,
+          target
+        )
+        break
+    }
+  }
+
+  #originate (body: Record<string, unknown>) {
+    const target = 'messageOriginate'
+    const { topic_id: topic, message_length: length, request_reference: reference } = body
+
+    if (typeof topic !== 'number' || !this.#topics.some((provisioned) => provisioned.id === topic) ||
+      typeof length !== 'number' || !Number.isInteger(length) || length < 1 || length > this.#maxMessageLength) {
+      this.#respond(JsprResponseCode.INVALID_JSON_FIELD, target)
+      return
+    }
+
+    if (this.#operationalState !== 'active' || this.#outbound !== null) {
+      this.#respond(JsprResponseCode.INVALID_STATE, target)
+      return
+    }
+
+    this.#outbound = { topic, id: ++this.#messageId, data: Buffer.alloc(length), received: 0 }
+
+    this.#respond(JsprResponseCode.OK, target, {
+      topic_id: topic,
+      request_reference: reference ?? 0,
+      message_id: this.#outbound.id,
+      message_response: 'message_accepted'
+    })
+
+    this.#requestSegment()
+  }
+
+  #requestSegment () {
+    if (!this.#outbound) return
+
+    this.#respond(JsprResponseCode.UNSOLICITED, 'messageOriginateSegment', {
+      topic_id: this.#outbound.topic,
+      message_id: this.#outbound.id,
+      segment_length: Math.min(this.#segmentLength, this.#outbound.data.length - this.#outbound.received),
+      segment_start: this.#outbound.received
+    })
+  }
+
+  #originateSegment = async (body: Record<string, unknown>): Promise<void> => {
+    const target = 'messageOriginateSegment'
+    const outbound = this.#outbound
+
+    if (!outbound || body.message_id !== outbound.id) {
+      this.#respond(JsprResponseCode.INVALID_STATE, target)
+      return
+    }
+
+    const data = typeof body.data === 'string' ? Buffer.from(body.data, 'base64') : Buffer.alloc(0)
+
+    if (body.topic_id !== outbound.topic || body.segment_start !== outbound.received ||
+      body.segment_length !== data.length || data.length === 0 ||
+      outbound.received + data.length > outbound.data.length) {
+      this.#respond(JsprResponseCode.INVALID_JSON_FIELD, target)
+      return
+    }
+
+    data.copy(outbound.data, outbound.received)
+    outbound.received += data.length
+
+    this.#respond(JsprResponseCode.OK, target, {
+      topic_id: outbound.topic,
+      message_id: outbound.id,
+      segment_length: data.length,
+      segment_start: body.segment_start,
+      status: 'segment_accepted'
+    })
+
+    if (outbound.received < outbound.data.length) {
+      this.#requestSegment()
+      return
+    }
+
+    // the whole message has been received, attempt to send it
+    const status = await this.#sendMO(outbound.topic, outbound.data)
+    this.#outbound = null
+
+    this.#respond(JsprResponseCode.UNSOLICITED, 'messageOriginateStatus', {
+      topic_id: outbound.topic,
+      message_id: outbound.id,
+      final_mo_status: status
+    })
+
+    if (status === 'mo_ack_received') this.deliverMT()
+  }
+
+  #deliverMessage (payload: Buffer) {
+    const topic = this.#topics[0]?.id ?? JSPR_DEFAULT_TOPICS[0].id
+    const id = ++this.#messageId
+
+    this.#respond(JsprResponseCode.UNSOLICITED, 'messageTerminate', {
+      topic_id: topic,
+      message_id: id,
+      message_length_max: this.#maxMessageLength,
+      message_length: payload.length
+    })
+
+    for (let start = 0; start < payload.length; start += this.#segmentLength) {
+      const segment = payload.subarray(start, start + this.#segmentLength)
+
+      this.#respond(JsprResponseCode.UNSOLICITED, 'messageTerminateSegment', {
+        topic_id: topic,
+        message_id: id,
+        segment_length: segment.length,
+        segment_start: start,
+        data: segment.toString('base64')
+      })
+    }
+
+    this.#respond(JsprResponseCode.UNSOLICITED, 'messageTerminateStatus', {
+      topic_id: topic,
+      message_id: id,
+      final_mt_status: 'complete'
+    })
+  }
+
+  #apiVersion () {
+    return {
+      supported_versions: JSPR_SUPPORTED_VERSIONS,
+      ...this.#activeVersion && { active_version: this.#activeVersion }
+    }
+  }
+
+  #constellationState () {
+    return {
+      constellation_visible: this.#constellationVisible,
+      signal_bars: this.#signalBars,
+      signal_level: this.#constellationVisible ? -125 + this.#signalBars * 5 : -130
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { createRandom } from '../utils'
+import { SignalQuality } from '../signal/model'
+import { iridiumPosition } from './cep'
+import { distance } from './track'
+
+const POSITION = { latitude: 50.2563, longitude: 82.2532 }
+
+describe('iridiumPosition', () => {
+  it('reports a larger CEP as the signal quality drops', () => {
+    const median = (signalQuality: SignalQuality) => {
+      const random = createRandom(1)
+      const ceps = Array.from({ length: 51 }, () => iridiumPosition(POSITION, signalQuality, random).cep)
+      return ceps.sort((a, b) => a - b)[25]
+    }
+
+    assert.ok(median(SignalQuality.FIVE) < median(SignalQuality.THREE))
+    assert.ok(median(SignalQuality.THREE) < median(SignalQuality.NONE))
+  })
+
+  it('jitters the position within a few CEPs of the device', () => {
+    const random = createRandom(2)
+
+    for (let i = 0; i < 50; i++) {
+      const position = iridiumPosition(POSITION, SignalQuality.FOUR, random)
+      assert.ok(distance(POSITION, position) / 1000 < position.cep * 4)
+    }
+  })
+
+  it('is deterministic for the same source of randomness', () => {
+    assert.deepStrictEqual(
+      iridiumPosition(POSITION, SignalQuality.TWO, createRandom(3)),
+      iridiumPosition(POSITION, SignalQuality.TWO, createRandom(3))
+    )
+  })
+
+  it('keeps the position within the valid range', () => {
+    const position = iridiumPosition({ latitude: 89.99, longitude: 179.99 }, SignalQuality.NONE, () => 0.999)
+
+    assert.ok(position.latitude <= 90)
+    assert.ok(position.longitude >= -180 && position.longitude < 180)
+  })
+})
@@ -0,0 +1,50 @@
+import { SignalQuality } from '../signal/model'
+import { Position } from './provider'
+
+const KM_PER_DEGREE = 111.32
+
+/** Typical Iridium CEP in km for each signal quality */
+const CEP_BY_SIGNAL_QUALITY: Record<SignalQuality, number> = {
+  [SignalQuality.NONE]: 120,
+  [SignalQuality.ONE]: 60,
+  [SignalQuality.TWO]: 25,
+  [SignalQuality.THREE]: 10,
+  [SignalQuality.FOUR]: 5,
+  [SignalQuality.FIVE]: 3
+}
+
+export type IridiumPosition = Position & {
+  /** Circular error probable in km */
+  cep: number
+}
+
+/**
+ * Estimates the position the Iridium network would report for a
+ * device, jittered within a circular error probable (CEP) that
+ * grows as the signal quality drops.
+ *
+ * @param position the true position of the device
+ * @param signalQuality the signal quality during the session
+ * @param random source of randomness in the range [0, 1)
+ */
+export function iridiumPosition (position: Position, signalQuality: SignalQuality, random: () => number): IridiumPosition {
+  // vary the CEP by +/- 30% of the typical value
+  const cep = Math.max(1, Math.round(CEP_BY_SIGNAL_QUALITY[signalQuality] * (0.7 + random() * 0.6)))
+
+  // the CEP of a circular normal distribution is 1.1774 sigma
+  const sigma = cep / 1.1774
+  const radius = sigma * Math.sqrt(-2 * Math.log(1 - random()))
+  const bearing = 2 * Math.PI * random()
+
+  const north = radius * Math.cos(bearing)
+  const east = radius * Math.sin(bearing)
+
+  const latitude = Math.max(-90, Math.min(90, position.latitude + north / KM_PER_DEGREE))
+  const longitude = position.longitude + east / (KM_PER_DEGREE * Math.max(Math.cos(position.latitude * Math.PI / 180), 0.01))
+
+  return {
+    latitude: Number(latitude.toFixed(4)),
+    longitude: Number((((longitude + 540) % 360) - 180).toFixed(4)),
+    cep
+  }
+}
@@ -0,0 +1,16 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { ecefPosition } from './ecef'
+
+describe('ecefPosition', () => {
+  it('converts positions on the axes', () => {
+    assert.deepStrictEqual(ecefPosition({ latitude: 0, longitude: 0 }), { x: 6378, y: 0, z: 0 })
+    assert.deepStrictEqual(ecefPosition({ latitude: 0, longitude: 90 }), { x: 0, y: 6378, z: 0 })
+    assert.deepStrictEqual(ecefPosition({ latitude: 90, longitude: 0 }), { x: 0, y: 0, z: 6357 })
+  })
+
+  it('rounds the coordinates to the resolution', () => {
+    assert.deepStrictEqual(ecefPosition({ latitude: 0, longitude: 0 }, 4), { x: 6380, y: 0, z: 0 })
+  })
+})
@@ -0,0 +1,38 @@
+import { Position } from './provider'
+
+/** WGS84 equatorial radius in km */
+const EQUATORIAL_RADIUS = 6378.137
+
+/** WGS84 first eccentricity squared */
+const ECCENTRICITY_SQUARED = 6.69437999014e-3
+
+/** Earth-centred, earth-fixed coordinates in km */
+export type EcefPosition = {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * Converts a position on the WGS84 ellipsoid into earth-centred,
+ * earth-fixed coordinates, where the z-axis passes through the
+ * north pole and the x-axis through the prime meridian.
+ *
+ * @param position the position of the device
+ * @param resolution the resolution in km the coordinates are rounded to
+ */
+export function ecefPosition (position: Position, resolution = 1): EcefPosition {
+  const latitude = position.latitude * Math.PI / 180
+  const longitude = position.longitude * Math.PI / 180
+
+  // radius of curvature in the prime vertical
+  const radius = EQUATORIAL_RADIUS / Math.sqrt(1 - ECCENTRICITY_SQUARED * Math.sin(latitude) ** 2)
+
+  const round = (value: number) => Math.round(value / resolution) * resolution
+
+  return {
+    x: round(radius * Math.cos(latitude) * Math.cos(longitude)),
+    y: round(radius * Math.cos(latitude) * Math.sin(longitude)),
+    z: round(radius * (1 - ECCENTRICITY_SQUARED) * Math.sin(latitude))
+  }
+}
@@ -0,0 +1,4 @@
+export * from './provider'
+export * from './track'
+export * from './cep'
+export * from './ecef'
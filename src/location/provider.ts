@@ -0,0 +1,46 @@
+export type Position = {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Provides the true position of the device over time.
+ */
+export interface LocationProvider {
+  /**
+   * Returns the position of the device at the given time.
+   *
+   * @param time milliseconds since the unix epoch
+   */
+  position (time: number): Position
+}
+
+/**
+ * Device that stays at a fixed position.
+ */
+export class FixedLocationProvider implements LocationProvider {
+  #position: Position
+
+  constructor (position: Position) {
+    this.#position = { ...position }
+  }
+
+  position () {
+    return { ...this.#position }
+  }
+}
+
+/**
+ * Device position determined by a callback.
+ */
+export class CallbackLocationProvider implements LocationProvider {
+  #callback: (time: number) => Position
+
+  constructor (callback: (time: number) => Position) {
+    this.#callback = callback
+  }
+
+  position (time: number) {
+    return this.#callback(time)
+  }
+}
@@ -0,0 +1,130 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, it } from 'node:test'
+
+import { FixedLocationProvider } from './provider'
+import { distance, parseGeoJson, parseGpx, TrackLocationProvider } from './track'
+
+const GPX = `<?xml version="1.0"?>
+<gpx version="1.1">
+  <trk><trkseg>
+    <trkpt lat="10" lon="20"><time>2024-01-01T00:00:00Z</time></trkpt>
+    <trkpt lon='21' lat='11'><ele>5</ele><time>2024-01-01T00:10:00Z</time></trkpt>
+  </trkseg></trk>
+  <wpt lat="12" lon="22"/>
+</gpx>`
+
+describe('distance', () => {
+  it('measures the great circle distance in metres', () => {
+    assert.strictEqual(distance({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 0 }), 0)
+    // one degree of longitude along the equator
+    assert.ok(Math.abs(distance({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 }) - 111195) < 1)
+  })
+})
+
+describe('parseGpx', () => {
+  it('parses track points and waypoints with their times', () => {
+    assert.deepStrictEqual(parseGpx(GPX), [
+      { latitude: 10, longitude: 20, time: Date.UTC(2024, 0, 1) },
+      { latitude: 11, longitude: 21, time: Date.UTC(2024, 0, 1, 0, 10) },
+      { latitude: 12, longitude: 22 }
+    ])
+  })
+
+  it('skips points without coordinates', () => {
+    assert.deepStrictEqual(parseGpx('<gpx><wpt lat="1"/></gpx>'), [])
+  })
+})
+
+describe('parseGeoJson', () => {
+  it('parses the features of a collection with their coordinate times', () => {
+    const points = parseGeoJson({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { coordTimes: ['2024-01-01T00:00:00Z', 1000] },
+          geometry: { type: 'LineString', coordinates: [[20, 10], [21, 11]] }
+        },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [22, 12, 100] } }
+      ]
+    })
+
+    assert.deepStrictEqual(points, [
+      { latitude: 10, longitude: 20, time: Date.UTC(2024, 0, 1) },
+      { latitude: 11, longitude: 21, time: 1000 },
+      { latitude: 12, longitude: 22 }
+    ])
+  })
+
+  it('parses a bare geometry from a string', () => {
+    assert.deepStrictEqual(parseGeoJson('{"type":"MultiPoint","coordinates":[[1,2],["x",3]]}'), [
+      { latitude: 2, longitude: 1 }
+    ])
+  })
+})
+
+describe('TrackLocationProvider', () => {
+  it('requires at least one point', () => {
+    assert.throws(() => new TrackLocationProvider({ points: [] }), RangeError)
+  })
+
+  it('follows the recorded timing from the first position requested', () => {
+    const track = TrackLocationProvider.fromGpx(GPX.replace(/<wpt[^>]*>/, ''))
+    const start = Date.UTC(2030, 0, 1)
+
+    assert.strictEqual(track.duration, 10 * 60 * 1000)
+    assert.deepStrictEqual(track.position(start), { latitude: 10, longitude: 20 })
+    assert.deepStrictEqual(track.position(start + 5 * 60 * 1000), { latitude: 10.5, longitude: 20.5 })
+    // the device stays at the last point once the track has finished
+    assert.deepStrictEqual(track.position(start + 60 * 60 * 1000), { latitude: 11, longitude: 21 })
+  })
+
+  it('moves between untimed points at a constant speed', () => {
+    const points = [{ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 }]
+    const track = new TrackLocationProvider({ points, speed: 10 })
+    const duration = distance(points[0], points[1]) / 10 * 1000
+
+    assert.strictEqual(track.duration, duration)
+
+    track.position(0)
+    assert.deepStrictEqual(track.position(duration / 4), { latitude: 0, longitude: 0.25 })
+  })
+
+  it('starts over at the end of a looping track', () => {
+    const track = new TrackLocationProvider({
+      points: [{ latitude: 0, longitude: 0, time: 0 }, { latitude: 0, longitude: 10, time: 1000 }],
+      loop: true
+    })
+
+    track.position(0)
+    assert.deepStrictEqual(track.position(1500), { latitude: 0, longitude: 5 })
+  })
+
+  it('loads GPX and GeoJSON files', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'track-'))
+
+    try {
+      fs.writeFileSync(path.join(directory, 'track.gpx'), GPX)
+      fs.writeFileSync(path.join(directory, 'track.json'), '{"type":"Point","coordinates":[20,10]}')
+
+      assert.strictEqual(TrackLocationProvider.fromFile(path.join(directory, 'track.gpx')).points.length, 3)
+      assert.deepStrictEqual(TrackLocationProvider.fromFile(path.join(directory, 'track.json')).points, [
+        { latitude: 10, longitude: 20 }
+      ])
+    } finally {
+      fs.rmSync(directory, { recursive: true })
+    }
+  })
+})
+
+describe('FixedLocationProvider', () => {
+  it('returns a copy of the position', () => {
+    const provider = new FixedLocationProvider({ latitude: 1, longitude: 2 })
+    provider.position().latitude = 5
+
+    assert.deepStrictEqual(provider.position(), { latitude: 1, longitude: 2 })
+  })
+})
@@ -0,0 +1,202 @@
+import fs from 'fs'
+
+import { LocationProvider, Position } from './provider'
+
+const EARTH_RADIUS = 6371000 // m
+const RAD = Math.PI / 180
+
+export type TrackPoint = Position & {
+  /** Milliseconds since the unix epoch the device was at the point */
+  time?: number
+}
+
+/**
+ * Great circle distance between two positions in metres.
+ */
+export function distance (from: Position, to: Position) {
+  const dLat = (to.latitude - from.latitude) * RAD
+  const dLon = (to.longitude - from.longitude) * RAD
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.latitude * RAD) * Math.cos(to.latitude * RAD) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Parses the track points, route points or waypoints of a GPX document.
+ */
+export function parseGpx (gpx: string): TrackPoint[] {
+  const points: TrackPoint[] = []
+  const pattern = /<(trkpt|rtept|wpt)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/g
+
+  let match
+  while ((match = pattern.exec(gpx)) !== null) {
+    const latitude = Number(match[2].match(/lat\s*=\s*["']([^"']+)["']/)?.[1])
+    const longitude = Number(match[2].match(/lon\s*=\s*["']([^"']+)["']/)?.[1])
+    if (isNaN(latitude) || isNaN(longitude)) continue
+
+    const time = match[4]?.match(/<time>([^<]+)<\/time>/)?.[1]
+    points.push({ latitude, longitude, ...time && { time: Date.parse(time) } })
+  }
+
+  return points
+}
+
+/** Narrows a parsed JSON value to an object */
+function isObject (value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** Narrows a parsed JSON value to a GeoJSON position, `[longitude, latitude]` */
+function isCoordinates (value: unknown): value is number[] {
+  return Array.isArray(value) && value.length >= 2 && value.every((n) => typeof n === 'number')
+}
+
+/** Narrows a parsed JSON value to the times of a feature's coordinates */
+function isTimes (value: unknown): value is (string | number)[] {
+  return Array.isArray(value) && value.every((time) => typeof time === 'string' || typeof time === 'number')
+}
+
+/**
+ * Parses the points of a GeoJSON LineString, MultiPoint or Point
+ * geometry (or the features containing them). Times are taken from
+ * the `coordTimes` or `times` feature properties when present.
+ */
+export function parseGeoJson (geojson: string | object): TrackPoint[] {
+  const document: unknown = typeof geojson === 'string' ? JSON.parse(geojson) : geojson
+  const points: TrackPoint[] = []
+
+  const visit = (node: unknown, times?: (string | number)[]) => {
+    if (!isObject(node)) return
+
+    switch (node.type) {
+      case 'FeatureCollection':
+        if (Array.isArray(node.features)) node.features.forEach((feature: unknown) => visit(feature))
+        break
+      case 'Feature': {
+        const properties = isObject(node.properties) ? node.properties : {}
+        const coordTimes = properties.coordTimes ?? properties.times
+
+        visit(node.geometry, isTimes(coordTimes) ? coordTimes : undefined)
+        break
+      }
+      case 'Point':
+        if (isCoordinates(node.coordinates)) points.push(toPoint(node.coordinates, times?.[0]))
+        break
+      case 'LineString':
+      case 'MultiPoint':
+        if (!Array.isArray(node.coordinates)) break
+
+        node.coordinates.forEach((coordinates: unknown, i: number) => {
+          if (isCoordinates(coordinates)) points.push(toPoint(coordinates, times?.[i]))
+        })
+        break
+    }
+  }
+
+  const toPoint = ([longitude, latitude]: number[], time?: string | number): TrackPoint => ({
+    latitude,
+    longitude,
+    ...time !== undefined && { time: typeof time === 'number' ? time : Date.parse(time) }
+  })
+
+  visit(document)
+  return points
+}
+
+/**
+ * Device that moves along a track. When every point has a time the
+ * device follows the recorded timing, otherwise it moves between the
+ * points at a constant speed. Playback starts from the first position
+ * requested by the emulator.
+ */
+export class TrackLocationProvider implements LocationProvider {
+  #points: TrackPoint[]
+
+  get points () {
+    return this.#points
+  }
+
+  /** Milliseconds into the track each point is reached */
+  #offsets: number[]
+
+  #loop: boolean
+
+  #start: number | null = null
+
+  get duration () {
+    return this.#offsets[this.#offsets.length - 1]
+  }
+
+  constructor ({
+    points,
+    speed = 5,
+    loop = false
+  }: {
+    points: TrackPoint[],
+    /** Speed in metres per second used when the points are not timed */
+    speed?: number,
+    loop?: boolean
+  }) {
+    if (points.length === 0) throw RangeError('Expected the track to contain at least one point')
+
+    this.#points = points
+    this.#loop = loop
+
+    const timed = points.every(point => point.time !== undefined && !isNaN(point.time))
+
+    this.#offsets = points.map((point, i) => {
+      if (timed) return (point.time as number) - (points[0].time as number)
+      return 0
+    })
+
+    if (!timed) {
+      for (let i = 1; i < points.length; i++) {
+        this.#offsets[i] = this.#offsets[i - 1] + distance(points[i - 1], points[i]) / speed * 1000
+      }
+    }
+  }
+
+  static fromGpx (gpx: string, options: { speed?: number, loop?: boolean } = {}) {
+    return new TrackLocationProvider({ ...options, points: parseGpx(gpx) })
+  }
+
+  static fromGeoJson (geojson: string | object, options: { speed?: number, loop?: boolean } = {}) {
+    return new TrackLocationProvider({ ...options, points: parseGeoJson(geojson) })
+  }
+
+  /**
+   * Loads a track from a GPX (.gpx) or GeoJSON file.
+   */
+  static fromFile (path: string, options: { speed?: number, loop?: boolean } = {}) {
+    const contents = fs.readFileSync(path).toString()
+    return contents.trimStart().startsWith('<')
+      ? TrackLocationProvider.fromGpx(contents, options)
+      : TrackLocationProvider.fromGeoJson(contents, options)
+  }
+
+  position (time: number): Position {
+    if (this.#start === null) this.#start = time
+
+    let offset = time - this.#start
+    if (this.#loop && this.duration > 0) offset %= this.duration
+
+    const next = this.#offsets.findIndex(value => value > offset)
+    if (next === -1) {
+      const last = this.#points[this.#points.length - 1]
+      return { latitude: last.latitude, longitude: last.longitude }
+    }
+    if (next === 0) {
+      return { latitude: this.#points[0].latitude, longitude: this.#points[0].longitude }
+    }
+
+    // linear interpolation between the surrounding points
+    const from = this.#points[next - 1]
+    const to = this.#points[next]
+    const fraction = (offset - this.#offsets[next - 1]) / (this.#offsets[next] - this.#offsets[next - 1])
+
+    return {
+      latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+      longitude: from.longitude + (to.longitude - from.longitude) * fraction
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { createDeviceProfile, DEVICE_PROFILES, isCommandSupported } from './profiles'
+
+describe('isCommandSupported', () => {
+  it('supports every command not listed as unsupported', () => {
+    assert.ok(isCommandSupported(DEVICE_PROFILES[9603], '*R'))
+    assert.ok(!isCommandSupported(DEVICE_PROFILES['9522B'], '*R'))
+  })
+
+  it('supports only the listed commands when given', () => {
+    const profile = createDeviceProfile('9603', { name: 'minimal', supportedCommands: ['+CSQ'] })
+
+    assert.ok(isCommandSupported(profile, '+CSQ'))
+    assert.ok(!isCommandSupported(profile, '+SBDIX'))
+  })
+
+  it('supports no AT commands on the RockBLOCK 9704', () => {
+    assert.ok(!isCommandSupported(DEVICE_PROFILES['rockblock-9704'], '+SBDIX'))
+    assert.ok(!isCommandSupported(DEVICE_PROFILES['rockblock-9704'], 'E'))
+  })
+})
+
+describe('createDeviceProfile', () => {
+  it('overrides the base profile', () => {
+    const profile = createDeviceProfile('9603', { name: 'legacy-9603', softwareRevisionLevel: 'TA19002', maxMTLength: 100 })
+
+    assert.strictEqual(profile.name, 'legacy-9603')
+    assert.strictEqual(profile.softwareRevisionLevel, 'TA19002')
+    assert.strictEqual(profile.maxMTLength, 100)
+    assert.strictEqual(profile.maxMOLength, 340)
+  })
+
+  it('throws for an unknown base profile', () => {
+    assert.throws(() => createDeviceProfile('9999' as never, { name: 'x' }), TypeError)
+  })
+})
@@ -0,0 +1,156 @@
+const SECOND = 1000
+
+export type DeviceProfile = {
+  /** Name of the profile */
+  name: string
+  /** Software revision level (ATI3 and the call processor version of AT+CGMR) */
+  softwareRevisionLevel: string
+  /** Product description (ATI4) */
+  productDescription: string
+  /** Model identification (AT+CGMM) */
+  deviceModel: string
+  /** Hardware specification (ATI7 and the hardware version of AT+CGMR) */
+  hardwareSpecification: string
+  /** Remaining component versions reported by AT+CGMR */
+  revision: {
+    modemDsp: string
+    dbb: string
+    rfa: string
+    nvm: string
+    boot: string
+  }
+  /** Maximum length of Mobile Originated (MO) messages in bytes */
+  maxMOLength: number
+  /** Maximum length of Mobile Terminated (MT) messages in bytes */
+  maxMTLength: number
+  /** Names of the commands (e.g. `+SBDST` or `*R`) which the model does not support */
+  unsupportedCommands: string[]
+  /** Names of the only commands which the model supports, every command of the emulator when omitted */
+  supportedCommands?: string[]
+  /** Time taken to complete SBD sessions with the gateway, in milliseconds */
+  sessionTime: { min: number, max: number }
+  /** Indicates if SBD ring alerts are enabled at power up */
+  ringAlertsEnabled: boolean
+  /** The serial protocol spoken by the device, defaults to the AT command set */
+  protocol?: 'at' | 'jspr'
+}
+
+// The 9603 identification is that of the emulator before device
+// profiles were introduced. The revision strings and hardware
+// specifications of the other profiles are illustrative only, in the
+// format of the 9603, and are not taken from real devices.
+
+const IRIDIUM_9603: DeviceProfile = {
+  name: '9603',
+  softwareRevisionLevel: 'TA20003',
+  productDescription: 'IRIDIUM 9600 Family',
+  deviceModel: 'IRIDIUM 9600 Family SBD Transceiver',
+  hardwareSpecification: 'BOOT07d4/9603NrevDE/04/RAW0c',
+  revision: {
+    modemDsp: '1.7 sv: 4343',
+    dbb: '0x0001 (ASIC)',
+    rfa: '0x0007 (SRFA2)',
+    nvm: 'KVS',
+    boot: '2004 TD2-BLB960X-27 R4710'
+  },
+  maxMOLength: 340,
+  maxMTLength: 270,
+  unsupportedCommands: [],
+  sessionTime: { min: 15 * SECOND, max: 30 * SECOND },
+  ringAlertsEnabled: false
+}
+
+const IRIDIUM_9602: DeviceProfile = {
+  ...IRIDIUM_9603,
+  name: '9602',
+  softwareRevisionLevel: 'TA11002',
+  hardwareSpecification: 'BOOT07d2/9602NrevJ/04/RAW0c',
+  revision: {
+    ...IRIDIUM_9603.revision,
+    modemDsp: '1.7 sv: 4211',
+    boot: '2004 TD2-BLB960X-27 R4710'
+  },
+  sessionTime: { min: 20 * SECOND, max: 40 * SECOND }
+}
+
+const IRIDIUM_9522B: DeviceProfile = {
+  name: '9522B',
+  softwareRevisionLevel: 'LW12002',
+  productDescription: 'IRIDIUM 9500 Family',
+  deviceModel: 'IRIDIUM 9522B Satellite Transceiver',
+  hardwareSpecification: 'BOOT0610/9522BNrev4/04/RAW0d',
+  revision: {
+    modemDsp: '1.6 sv: 3402',
+    dbb: '0x0001 (ASIC)',
+    rfa: '0x0004 (SRFA1)',
+    nvm: 'KVS',
+    boot: '2004 TD2-BLB952X-12 R4610'
+  },
+  maxMOLength: 1960,
+  maxMTLength: 1890,
+  // the 9522B is a full transceiver without the SBD specific extensions
+  unsupportedCommands: ['*R', '+SBDST'],
+  sessionTime: { min: 8 * SECOND, max: 20 * SECOND },
+  ringAlertsEnabled: true
+}
+
+export type DeviceProfileName = '9602' | '9603' | '9522B' | 'rockblock-mk2' | 'rockblock-9603' | 'rockblock-9704'
+
+const ROCKBLOCK_9704: DeviceProfile = {
+  name: 'rockblock-9704',
+  softwareRevisionLevel: '5.4.0',
+  productDescription: 'RockBLOCK 9704',
+  deviceModel: 'RockBLOCK 9704',
+  hardwareSpecification: 'RB9704-A',
+  revision: {
+    modemDsp: '',
+    dbb: '',
+    rfa: '',
+    nvm: '',
+    boot: ''
+  },
+  maxMOLength: 100000,
+  maxMTLength: 100000,
+  unsupportedCommands: [],
+  // the 9704 has no AT command set, SBD is only available over JSPR
+  supportedCommands: [],
+  sessionTime: { min: 5 * SECOND, max: 15 * SECOND },
+  ringAlertsEnabled: false,
+  protocol: 'jspr'
+}
+
+/** Profiles of the supported Iridium modems and RockBLOCK devices */
+export const DEVICE_PROFILES: Record<DeviceProfileName, DeviceProfile> = {
+  9602: IRIDIUM_9602,
+  9603: IRIDIUM_9603,
+  '9522B': IRIDIUM_9522B,
+  'rockblock-mk2': { ...IRIDIUM_9602, name: 'rockblock-mk2' },
+  'rockblock-9603': { ...IRIDIUM_9603, name: 'rockblock-9603' },
+  'rockblock-9704': ROCKBLOCK_9704
+}
+
+/**
+ * Indicates if the model of a profile supports the named command.
+ */
+export function isCommandSupported (profile: DeviceProfile, name: string): boolean {
+  if (profile.unsupportedCommands.includes(name)) return false
+
+  return profile.supportedCommands?.includes(name) ?? true
+}
+
+/**
+ * Creates a custom device profile based on one of the predefined profiles.
+ */
+export function createDeviceProfile (base: DeviceProfileName | DeviceProfile, overrides: Partial<DeviceProfile> & { name: string }): DeviceProfile {
+  const profile = typeof base === 'object' ? base : DEVICE_PROFILES[base]
+
+  if (!profile) {
+    throw TypeError(`Unknown device profile '${base}'`)
+  }
+
+  return {
+    ...profile,
+    ...overrides,
+    revision: { ...profile.revision, ...overrides.revision }
+  }
+}
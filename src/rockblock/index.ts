@@ -0,0 +1,2 @@
+export * from './mt-server'
+export * from './webhook'
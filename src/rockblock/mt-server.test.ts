@@ -0,0 +1,76 @@
+import assert from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { RockBlockMTServer } from './mt-server'
+
+const IMEI = '300534062390910'
+
+describe('RockBlockMTServer', () => {
+  let server: RockBlockMTServer
+  let messages: Buffer[]
+  let flushed: number
+
+  /** Posts form encoded parameters to the MT endpoint, resolving with the response body */
+  async function post (params: Record<string, string>, path = '/rockblock/MT') {
+    const response = await fetch(`http://127.0.0.1:${server.port}${path}`, {
+      method: 'POST',
+      body: new URLSearchParams({ imei: IMEI, username: 'user', password: 'secret', ...params })
+    })
+
+    return { status: response.status, body: await response.text() }
+  }
+
+  beforeEach(async () => {
+    messages = []
+    flushed = 0
+
+    server = new RockBlockMTServer({ port: 0, username: 'user', password: 'secret', imei: IMEI, maxMessageLength: 4 })
+    server.on('mt-message', (data) => messages.push(data))
+    server.on('flush', () => flushed++)
+    await server.listen()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('queues the hex encoded message', async () => {
+    assert.deepStrictEqual(await post({ data: '48690a' }), { status: 200, body: 'OK,1' })
+    assert.deepStrictEqual(await post({ data: '00' }), { status: 200, body: 'OK,2' })
+
+    assert.deepStrictEqual(messages, [Buffer.from('Hi\n'), Buffer.from([0])])
+  })
+
+  it('accepts the parameters in the query string', async () => {
+    const query = new URLSearchParams({ imei: IMEI, username: 'user', password: 'secret', data: 'ff' })
+    const response = await fetch(`http://127.0.0.1:${server.port}/rockblock/MT?${query}`, { method: 'POST' })
+
+    assert.strictEqual(await response.text(), 'OK,1')
+    assert.deepStrictEqual(messages, [Buffer.from([0xff])])
+  })
+
+  it('flushes the queue with or without a message', async () => {
+    assert.strictEqual((await post({ flush: 'yes' })).body, 'OK,0')
+    assert.strictEqual((await post({ flush: 'yes', data: '01' })).body, 'OK,1')
+
+    assert.strictEqual(flushed, 2)
+    assert.strictEqual(messages.length, 1)
+  })
+
+  it('responds with the RockBLOCK error codes', async () => {
+    assert.strictEqual((await post({ password: 'wrong', data: '01' })).body, 'FAILED,10,Invalid login credentials')
+    assert.strictEqual((await post({ imei: '300534062390911', data: '01' })).body, 'FAILED,11,No RockBLOCK with this IMEI found on your account')
+    assert.strictEqual((await post({ data: '0g' })).body, 'FAILED,14,Could not decode hex data')
+    assert.strictEqual((await post({ data: '0102030405' })).body, 'FAILED,15,Data too long')
+    assert.strictEqual((await post({})).body, 'FAILED,16,No data')
+
+    assert.strictEqual(messages.length, 0)
+  })
+
+  it('serves only POST /rockblock/MT', async () => {
+    assert.strictEqual((await post({ data: '01' }, '/rockblock/MO')).status, 404)
+
+    const response = await fetch(`http://127.0.0.1:${server.port}/rockblock/MT`)
+    assert.strictEqual(response.status, 405)
+  })
+})
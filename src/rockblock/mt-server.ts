@@ -0,0 +1,206 @@
+/* eslint-disable no-unused-vars */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { TypedEmitter } from 'tiny-typed-emitter'
+
+/** Error codes returned by the RockBLOCK MT web service */
+export enum RockBlockMTErrorCode {
+  INVALID_CREDENTIALS = 10,
+  IMEI_NOT_FOUND = 11,
+  NO_LINE_RENTAL = 12,
+  INSUFFICIENT_CREDIT = 13,
+  INVALID_HEX_DATA = 14,
+  DATA_TOO_LONG = 15,
+  NO_DATA = 16,
+  SYSTEM_ERROR = 99
+}
+
+const ERROR_DESCRIPTIONS: Record<RockBlockMTErrorCode, string> = {
+  [RockBlockMTErrorCode.INVALID_CREDENTIALS]: 'Invalid login credentials',
+  [RockBlockMTErrorCode.IMEI_NOT_FOUND]: 'No RockBLOCK with this IMEI found on your account',
+  [RockBlockMTErrorCode.NO_LINE_RENTAL]: 'RockBLOCK has no line rental',
+  [RockBlockMTErrorCode.INSUFFICIENT_CREDIT]: 'Your account has insufficient credit',
+  [RockBlockMTErrorCode.INVALID_HEX_DATA]: 'Could not decode hex data',
+  [RockBlockMTErrorCode.DATA_TOO_LONG]: 'Data too long',
+  [RockBlockMTErrorCode.NO_DATA]: 'No data',
+  [RockBlockMTErrorCode.SYSTEM_ERROR]: 'System Error'
+}
+
+export type RockBlockMTRequest = {
+  imei: string
+  data: Buffer | null
+  flush: boolean
+}
+
+export type RockBlockMTResponse = {
+  success: boolean
+  body: string
+}
+
+export interface RockBlockMTServerInterface {
+  'mt-message': (data: Buffer, id: number, imei: string) => void
+  'flush': (imei: string) => void
+  'request': (request: RockBlockMTRequest, response: RockBlockMTResponse) => void
+  'error': (error: Error) => void
+}
+
+/**
+ * Local stand-in for the RockBLOCK web service `POST /rockblock/MT`
+ * endpoint, used to queue Mobile Terminated (MT) messages from a
+ * backend as if they were sent through Rock7.
+ */
+export class RockBlockMTServer extends TypedEmitter<RockBlockMTServerInterface> {
+  #server: Server
+
+  #port: number
+
+  /** The TCP port the server is listening on */
+  get port () {
+    const address = this.#server.address()
+    return address && typeof address === 'object' ? address.port : this.#port
+  }
+
+  #host: string
+
+  get host () {
+    return this.#host
+  }
+
+  #username: string
+
+  #password: string
+
+  /** IMEI accepted by the server, or a predicate for serving several devices */
+  #imei: string | ((imei: string) => boolean)
+
+  /** Maximum MT message length, or a lookup of the length by IMEI */
+  #maxMessageLength: number | ((imei: string) => number)
+
+  /** Identifier of the last accepted MT message */
+  #messageId = 0
+
+  constructor ({
+    port,
+    host = '127.0.0.1',
+    username,
+    password,
+    imei,
+    maxMessageLength = 270
+  }: {
+    port: number,
+    host?: string,
+    username: string,
+    password: string,
+    imei: string | ((imei: string) => boolean),
+    maxMessageLength?: number | ((imei: string) => number)
+  }) {
+    super()
+
+    this.#port = port
+    this.#host = host
+    this.#username = username
+    this.#password = password
+    this.#imei = imei
+    this.#maxMessageLength = maxMessageLength
+
+    this.#server = createServer((req, res) => this.#handleRequest(req, res))
+    this.#server.on('error', (error) => this.emit('error', error))
+  }
+
+  listen (): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.#server.once('error', reject)
+      this.#server.listen(this.#port, this.#host, () => {
+        this.#server.off('error', reject)
+        resolve()
+      })
+    })
+  }
+
+  close (): Promise<void> {
+    if (!this.#server.listening) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      this.#server.close((error) => error ? reject(error) : resolve())
+    })
+  }
+
+  #handleRequest (req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+
+    if (url.pathname !== '/rockblock/MT') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' })
+      res.end('Not Found')
+      return
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'POST' })
+      res.end('Method Not Allowed')
+      return
+    }
+
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      // parameters may be provided as form data or in the query string
+      const params = new URLSearchParams(url.search)
+      new URLSearchParams(Buffer.concat(chunks).toString()).forEach((value, key) => params.set(key, value))
+
+      const response = this.#process(params)
+
+      res.writeHead(200, { 'Content-Type': 'text/plain' })
+      res.end(response.body)
+    })
+  }
+
+  #process (params: URLSearchParams): RockBlockMTResponse {
+    const imei = params.get('imei') ?? ''
+    const hex = params.get('data') ?? ''
+    const flush = params.get('flush') === 'yes'
+    const request: RockBlockMTRequest = { imei, data: null, flush }
+
+    const failed = (code: RockBlockMTErrorCode) => {
+      const response = { success: false, body: `FAILED,${code},${ERROR_DESCRIPTIONS[code]}` }
+      this.emit('request', request, response)
+      return response
+    }
+
+    if (params.get('username') !== this.#username || params.get('password') !== this.#password) {
+      return failed(RockBlockMTErrorCode.INVALID_CREDENTIALS)
+    }
+
+    if (typeof this.#imei === 'function' ? !this.#imei(imei) : imei !== this.#imei) {
+      return failed(RockBlockMTErrorCode.IMEI_NOT_FOUND)
+    }
+
+    if (hex === '' && !flush) {
+      return failed(RockBlockMTErrorCode.NO_DATA)
+    }
+
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+      return failed(RockBlockMTErrorCode.INVALID_HEX_DATA)
+    }
+
+    const data = Buffer.from(hex, 'hex')
+    request.data = data.length > 0 ? data : null
+
+    const maxMessageLength = typeof this.#maxMessageLength === 'function' ? this.#maxMessageLength(imei) : this.#maxMessageLength
+
+    if (data.length > maxMessageLength) {
+      return failed(RockBlockMTErrorCode.DATA_TOO_LONG)
+    }
+
+    if (flush) this.emit('flush', imei)
+
+    try {
+      if (request.data) this.emit('mt-message', request.data, ++this.#messageId, imei)
+    } catch (error: unknown) {
+      this.emit('error', error instanceof Error ? error : Error(String(error)))
+      return failed(RockBlockMTErrorCode.SYSTEM_ERROR)
+    }
+
+    const response = { success: true, body: `OK,${this.#messageId}` }
+    this.emit('request', request, response)
+    return response
+  }
+}
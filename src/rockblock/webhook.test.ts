@@ -0,0 +1,111 @@
+import assert from 'assert'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { VirtualClock } from '../clock'
+import type { SBDMessage } from '../emulator'
+import { WebhookDelivery, WebhookDeliveryAttempt } from './webhook'
+
+const MESSAGE = { momsn: 1, data: '68656c6c6f' } as SBDMessage
+
+/** Resolves with the next delivery attempt reported */
+function nextAttempt (delivery: WebhookDelivery): Promise<WebhookDeliveryAttempt> {
+  return new Promise((resolve) => {
+    delivery.once('delivered', resolve)
+    delivery.once('failed', resolve)
+  })
+}
+
+describe('WebhookDelivery', () => {
+  let server: Server
+  let url: string
+  let respond: (req: IncomingMessage, res: ServerResponse, body: string) => void
+  let clock: VirtualClock
+
+  beforeEach(async () => {
+    clock = new VirtualClock()
+    respond = (req, res) => res.end()
+
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => { body += chunk })
+      req.on('end', () => respond(req, res, body))
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  })
+
+  afterEach(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('posts the message form encoded', async () => {
+    let received = ''
+    respond = (req, res, body) => {
+      received = body
+      res.end()
+    }
+
+    const delivery = new WebhookDelivery({ urls: [url], clock })
+    const attempt = nextAttempt(delivery)
+    delivery.deliver(MESSAGE)
+
+    assert.strictEqual((await attempt).delivered, true)
+    assert.strictEqual(received, 'momsn=1&data=68656c6c6f')
+  })
+
+  it('retries with exponential backoff on the clock', async () => {
+    respond = (req, res) => {
+      res.statusCode = 500
+      res.end()
+    }
+
+    const delivery = new WebhookDelivery({ urls: [url], maxAttempts: 3, backoff: 1000, clock })
+
+    let attempt = nextAttempt(delivery)
+    delivery.deliver(MESSAGE)
+    assert.strictEqual((await attempt).willRetry, true)
+
+    attempt = nextAttempt(delivery)
+    await clock.advance(1000)
+    assert.strictEqual((await attempt).attempt, 2)
+
+    attempt = nextAttempt(delivery)
+    await clock.advance(2000)
+    const last = await attempt
+
+    assert.strictEqual(last.attempt, 3)
+    assert.strictEqual(last.willRetry, false)
+    assert.strictEqual(last.datetime.getTime(), 3000)
+    assert.strictEqual(delivery.log.length, 3)
+  })
+
+  it('abandons an attempt in flight when stopped', async () => {
+    let release = () => {}
+    const requested = new Promise<void>((resolve) => {
+      respond = (req, res) => {
+        release = () => {
+          res.statusCode = 500
+          res.end()
+        }
+        resolve()
+      }
+    })
+
+    const delivery = new WebhookDelivery({ urls: [url], clock })
+    delivery.deliver(MESSAGE)
+
+    await requested
+    delivery.stop()
+    release()
+
+    // allow the response to be received
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    assert.strictEqual(delivery.log.length, 0)
+    assert.strictEqual(clock.pending, 0)
+  })
+})
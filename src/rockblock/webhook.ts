@@ -0,0 +1,187 @@
+import http from 'http'
+import https from 'https'
+import { TypedEmitter } from 'tiny-typed-emitter'
+
+import { Clock, systemClock } from '../clock'
+import type { SBDMessage } from '../emulator'
+
+export type WebhookFormat = 'form' | 'json'
+
+export type WebhookDeliveryAttempt = {
+  url: string
+  momsn: number
+  attempt: number
+  datetime: Date
+  delivered: boolean
+  statusCode: number | null
+  error: string | null
+  willRetry: boolean
+}
+
+export interface WebhookDeliveryInterface {
+  'delivered': (attempt: WebhookDeliveryAttempt) => void
+  'failed': (attempt: WebhookDeliveryAttempt) => void
+}
+
+/**
+ * Sends a POST request and resolves with the response status code.
+ */
+function post (url: string, body: string, contentType: string, timeout: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = (url.startsWith('https:') ? https : http).request(url, {
+      method: 'POST',
+      timeout,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': Buffer.byteLength(body)
+      }
+    }, (res) => {
+      // drain the response so the socket is released
+      res.resume()
+      res.on('end', () => resolve(res.statusCode ?? 0))
+    })
+
+    request.on('timeout', () => request.destroy(Error(`Request timed out after ${timeout}ms`)))
+    request.on('error', reject)
+    request.end(body)
+  })
+}
+
+/**
+ * Delivers Mobile Orientated (MO) messages to one or more webhook
+ * URLs in the same format as the RockBLOCK web service, retrying
+ * with exponential backoff when delivery fails.
+ */
+export class WebhookDelivery extends TypedEmitter<WebhookDeliveryInterface> {
+  #urls: string[]
+
+  get urls () {
+    return this.#urls
+  }
+
+  #format: WebhookFormat
+
+  #maxAttempts: number
+
+  #backoff: number
+
+  #timeout: number
+
+  #clock: Clock
+
+  /** Record of every delivery attempt made */
+  #log: WebhookDeliveryAttempt[] = []
+
+  get log () {
+    return this.#log
+  }
+
+  /** Pending retries, cleared when delivery is stopped */
+  #retries = new Set<unknown>()
+
+  /** Indicates delivery has been stopped, discarding attempts still in flight */
+  #stopped = false
+
+  constructor ({
+    urls,
+    format = 'form',
+    maxAttempts = 5,
+    backoff = 1000,
+    timeout = 10000,
+    clock = systemClock
+  }: {
+    urls: string[],
+    format?: WebhookFormat,
+    maxAttempts?: number,
+    backoff?: number,
+    timeout?: number,
+    /** Clock scheduling the retries */
+    clock?: Clock
+  }) {
+    super()
+
+    this.#urls = urls
+    this.#format = format
+    this.#maxAttempts = maxAttempts
+    this.#backoff = backoff
+    this.#timeout = timeout
+    this.#clock = clock
+  }
+
+  /**
+   * Delivers the message to every configured URL. Failed attempts
+   * are retried in the background.
+   */
+  deliver (message: SBDMessage) {
+    if (this.#stopped) return
+
+    for (const url of this.#urls) {
+      this.#attempt(url, message, 1)
+    }
+  }
+
+  /** Cancels any pending retries and abandons attempts in flight */
+  stop () {
+    this.#stopped = true
+    this.#retries.forEach((timeout) => this.#clock.clearTimeout(timeout))
+    this.#retries.clear()
+  }
+
+  #encode (message: SBDMessage): [string, string] {
+    if (this.#format === 'json') {
+      return [JSON.stringify(message), 'application/json']
+    }
+
+    const params = new URLSearchParams()
+    Object.entries(message).forEach(([key, value]) => params.append(key, String(value)))
+    return [params.toString(), 'application/x-www-form-urlencoded']
+  }
+
+  async #attempt (url: string, message: SBDMessage, attempt: number) {
+    const [body, contentType] = this.#encode(message)
+
+    let statusCode: number | null = null
+    let error: string | null = null
+
+    try {
+      statusCode = await post(url, body, contentType, this.#timeout)
+      if (statusCode < 200 || statusCode >= 300) error = `Unexpected status code ${statusCode}`
+    } catch (err: unknown) {
+      error = err instanceof Error ? err.message : String(err)
+    }
+
+    if (this.#stopped) return
+
+    const delivered = error === null
+    const willRetry = !delivered && attempt < this.#maxAttempts
+
+    const record: WebhookDeliveryAttempt = {
+      url,
+      momsn: message.momsn,
+      attempt,
+      datetime: new Date(this.#clock.now()),
+      delivered,
+      statusCode,
+      error,
+      willRetry
+    }
+
+    this.#log.push(record)
+
+    if (delivered) {
+      this.emit('delivered', record)
+      return
+    }
+
+    this.emit('failed', record)
+
+    if (willRetry) {
+      const timeout = this.#clock.setTimeout(() => {
+        this.#retries.delete(timeout)
+        this.#attempt(url, message, attempt + 1)
+      }, this.#backoff * Math.pow(2, attempt - 1))
+
+      this.#retries.add(timeout)
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { ConstellationSignalModel, satelliteViews, Weather } from './constellation'
+import { SignalQuality } from './model'
+
+const LONDON = { latitude: 51.5, longitude: -0.1 }
+
+/** Samples the model every 10 seconds for the given number of minutes */
+function samples (model: ConstellationSignalModel, minutes: number) {
+  const qualities: SignalQuality[] = []
+  for (let time = 0; time < minutes * 60 * 1000; time += 10 * 1000) qualities.push(model.sample(time, () => 0.5))
+  return qualities
+}
+
+describe('satelliteViews', () => {
+  it('places 66 satellites in 6 planes', () => {
+    const views = satelliteViews(0, LONDON)
+
+    assert.strictEqual(views.length, 66)
+    assert.strictEqual(new Set(views.map((view) => view.plane)).size, 6)
+  })
+
+  it('always has a satellite above the horizon', () => {
+    for (const latitude of [-89, -45, 0, 30, 60, 89]) {
+      for (let time = 0; time < 6000; time += 60) {
+        const highest = Math.max(...satelliteViews(time, { latitude, longitude: 10 }).map((view) => view.elevation))
+        assert.ok(highest > 8.2, `no satellite visible at ${latitude} degrees after ${time} seconds`)
+      }
+    }
+  })
+
+  it('marks satellites behind an obstruction', () => {
+    const views = satelliteViews(0, LONDON, [{ azimuthFrom: 270, azimuthTo: 90, elevation: 30 }])
+
+    for (const view of views) {
+      const northern = view.azimuth >= 270 || view.azimuth <= 90
+      assert.strictEqual(view.obstructed, northern && view.elevation < 30)
+    }
+  })
+})
+
+describe('ConstellationSignalModel', () => {
+  it('fades and recovers gradually as satellites pass', () => {
+    const qualities = samples(new ConstellationSignalModel({ position: LONDON, fading: 0 }), 10)
+
+    for (let i = 1; i < qualities.length; i++) {
+      assert.ok(Math.abs(qualities[i] - qualities[i - 1]) <= 1)
+    }
+    assert.ok(new Set(qualities).size > 1)
+  })
+
+  it('loses the signal when the whole sky is obstructed', () => {
+    const model = new ConstellationSignalModel({
+      position: LONDON,
+      fading: 0,
+      obstructions: [{ azimuthFrom: 0, azimuthTo: 360, elevation: 90 }]
+    })
+
+    assert.strictEqual(model.sample(0, () => 0.5), SignalQuality.NONE)
+  })
+
+  it('reduces the signal in bad weather', () => {
+    const sum = (qualities: SignalQuality[]) => qualities.reduce<number>((total, quality) => total + quality, 0)
+
+    const clear = samples(new ConstellationSignalModel({ position: LONDON, fading: 0 }), 10)
+    const storm = samples(new ConstellationSignalModel({ position: LONDON, fading: 0, weather: Weather.STORM }), 10)
+
+    assert.ok(sum(storm) < sum(clear))
+  })
+
+  it('follows a moving position', () => {
+    let position = LONDON
+    const model = new ConstellationSignalModel({ position: () => position, fading: 0 })
+
+    model.sample(0, () => 0.5)
+    const margin = model.margin
+
+    position = { latitude: -33.9, longitude: 18.4 }
+    model.sample(0, () => 0.5)
+
+    assert.notStrictEqual(model.margin, margin)
+  })
+})
@@ -0,0 +1,219 @@
+/* eslint-disable no-unused-vars */
+import type { Position } from '../location'
+import { SignalModel, SignalQuality } from './model'
+
+const EARTH_RADIUS = 6371 // km
+const EARTH_ROTATION = 2 * Math.PI / 86164 // rad/s (sidereal day)
+const ORBIT_ALTITUDE = 780 // km
+const ORBIT_INCLINATION = 86.4 // degrees
+const ORBIT_PERIOD = 100.5 * 60 // seconds
+const PLANES = 6
+const SATELLITES_PER_PLANE = 11
+const PLANE_SPACING = 31.6 // degrees between ascending nodes
+
+/** Link margin in dB when a satellite is directly overhead in clear sky */
+const ZENITH_MARGIN = 14
+
+const RAD = Math.PI / 180
+
+export enum Weather {
+  CLEAR,
+  OVERCAST,
+  RAIN,
+  HEAVY_RAIN,
+  STORM
+}
+
+/** Simplified L-band attenuation in dB for each weather condition */
+const WEATHER_ATTENUATION: Record<Weather, number> = {
+  [Weather.CLEAR]: 0,
+  [Weather.OVERCAST]: 0.5,
+  [Weather.RAIN]: 1.5,
+  [Weather.HEAVY_RAIN]: 3,
+  [Weather.STORM]: 5
+}
+
+/**
+ * Section of sky blocked by an obstruction (eg. a building or
+ * hillside). Satellites within the azimuth range and below the
+ * elevation cannot be seen.
+ */
+export type Obstruction = {
+  /** Start of the blocked azimuth range, degrees clockwise from north */
+  azimuthFrom: number
+  /** End of the blocked azimuth range, degrees clockwise from north */
+  azimuthTo: number
+  /** Elevation in degrees the obstruction reaches */
+  elevation: number
+}
+
+export type SatelliteView = {
+  plane: number
+  satellite: number
+  elevation: number
+  azimuth: number
+  range: number
+  obstructed: boolean
+}
+
+/**
+ * Calculates the position of every satellite in a simplified Iridium
+ * constellation (6 polar planes of 11 satellites in circular orbits)
+ * as seen from a position on a spherical Earth.
+ *
+ * @param time seconds since the unix epoch
+ * @param position the observer position
+ */
+export function satelliteViews (time: number, position: Position, obstructions: Obstruction[] = []): SatelliteView[] {
+  const radius = EARTH_RADIUS + ORBIT_ALTITUDE
+  const inclination = ORBIT_INCLINATION * RAD
+  const latitude = position.latitude * RAD
+  const longitude = position.longitude * RAD + EARTH_ROTATION * time
+
+  const observer = [
+    EARTH_RADIUS * Math.cos(latitude) * Math.cos(longitude),
+    EARTH_RADIUS * Math.cos(latitude) * Math.sin(longitude),
+    EARTH_RADIUS * Math.sin(latitude)
+  ]
+  const up = observer.map(value => value / EARTH_RADIUS)
+  const east = [-Math.sin(longitude), Math.cos(longitude), 0]
+  const north = [
+    -Math.sin(latitude) * Math.cos(longitude),
+    -Math.sin(latitude) * Math.sin(longitude),
+    Math.cos(latitude)
+  ]
+
+  const views: SatelliteView[] = []
+
+  for (let plane = 0; plane < PLANES; plane++) {
+    const node = plane * PLANE_SPACING * RAD
+    // satellites in adjacent planes are phased by half a slot
+    const phase = (plane % 2) * Math.PI / SATELLITES_PER_PLANE
+
+    for (let satellite = 0; satellite < SATELLITES_PER_PLANE; satellite++) {
+      const anomaly = satellite * 2 * Math.PI / SATELLITES_PER_PLANE + phase + 2 * Math.PI * time / ORBIT_PERIOD
+
+      const position = [
+        radius * (Math.cos(node) * Math.cos(anomaly) - Math.sin(node) * Math.sin(anomaly) * Math.cos(inclination)),
+        radius * (Math.sin(node) * Math.cos(anomaly) + Math.cos(node) * Math.sin(anomaly) * Math.cos(inclination)),
+        radius * Math.sin(anomaly) * Math.sin(inclination)
+      ]
+
+      const offset = position.map((value, i) => value - observer[i])
+      const range = Math.hypot(offset[0], offset[1], offset[2])
+      const dot = (vector: number[]) => vector.reduce((sum, value, i) => sum + value * offset[i], 0)
+
+      const elevation = Math.asin(dot(up) / range) / RAD
+      const azimuth = (Math.atan2(dot(east), dot(north)) / RAD + 360) % 360
+
+      const obstructed = obstructions.some(obstruction => {
+        const from = ((obstruction.azimuthFrom % 360) + 360) % 360
+        const to = ((obstruction.azimuthTo % 360) + 360) % 360
+        // a range spanning 360 degrees blocks the whole horizon
+        const surrounding = obstruction.azimuthTo - obstruction.azimuthFrom >= 360
+        const within = surrounding || (from <= to ? azimuth >= from && azimuth <= to : azimuth >= from || azimuth <= to)
+        return within && elevation < obstruction.elevation
+      })
+
+      views.push({ plane, satellite, elevation, azimuth, range, obstructed })
+    }
+  }
+
+  return views
+}
+
+/**
+ * Signal model driven by the passes of a simplified Iridium
+ * constellation over the device. The link margin to the best visible
+ * satellite is reduced by path loss, weather and fading, and is
+ * smoothed over time to produce gradual fades and recoveries.
+ */
+export class ConstellationSignalModel implements SignalModel {
+  /** The position of the device */
+  position: Position | (() => Position)
+
+  /** Sections of the sky blocked by obstructions */
+  obstructions: Obstruction[]
+
+  /** The current weather at the device */
+  weather: Weather
+
+  /** Minimum elevation in degrees a satellite must reach to be usable */
+  #minElevation: number
+
+  /** Standard deviation in dB of the fast fading applied to each sample */
+  #fading: number
+
+  /** Time in milliseconds between samples */
+  #sampleInterval: number
+
+  /** The smoothed link margin in dB, null until the first sample */
+  #margin: number | null = null
+
+  get margin () {
+    return this.#margin
+  }
+
+  get description () {
+    return `constellation signal model (${Weather[this.weather]})`
+  }
+
+  constructor ({
+    position,
+    obstructions = [],
+    weather = Weather.CLEAR,
+    minElevation = 8.2,
+    fading = 1.5,
+    sampleInterval = 10 * 1000
+  }: {
+    position: Position | (() => Position),
+    obstructions?: Obstruction[],
+    weather?: Weather,
+    minElevation?: number,
+    fading?: number,
+    sampleInterval?: number
+  }) {
+    this.position = position
+    this.obstructions = obstructions
+    this.weather = weather
+    this.#minElevation = minElevation
+    this.#fading = fading
+    this.#sampleInterval = sampleInterval
+  }
+
+  sample (time: number, random: () => number): SignalQuality {
+    const position = typeof this.position === 'function' ? this.position() : this.position
+
+    const visible = satelliteViews(time / 1000, position, this.obstructions)
+      .filter(view => !view.obstructed && view.elevation >= this.#minElevation)
+
+    // path loss relative to a satellite directly overhead
+    const best = visible.reduce<SatelliteView | null>((nearest, view) => nearest === null || view.range < nearest.range ? view : nearest, null)
+    const target = best === null
+      ? -10
+      : ZENITH_MARGIN - 20 * Math.log10(best.range / ORBIT_ALTITUDE) - WEATHER_ATTENUATION[this.weather]
+
+    // approximate normally distributed fading (Irwin-Hall)
+    const noise = (random() + random() + random() - 1.5) * 2 * this.#fading
+
+    // losing the satellite is immediate, acquiring one takes a little longer
+    this.#margin = this.#margin === null || target < this.#margin - 6
+      ? target
+      : this.#margin + (target - this.#margin) * 0.5
+
+    return this.#bars(this.#margin + noise)
+  }
+
+  interval () {
+    return this.#sampleInterval
+  }
+
+  #bars (margin: number): SignalQuality {
+    if (margin <= 0) return SignalQuality.NONE
+    if (margin < 2) return SignalQuality.ONE
+    if (margin < 4) return SignalQuality.TWO
+    if (margin < 6) return SignalQuality.THREE
+    if (margin < 8) return SignalQuality.FOUR
+    return SignalQuality.FIVE
+  }
+}
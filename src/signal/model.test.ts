@@ -0,0 +1,35 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { createRandom } from '../utils'
+import { RatingSignalModel, SignalQualityRating } from './model'
+
+describe('RatingSignalModel', () => {
+  it('samples within the band of the rating', () => {
+    const bands: [SignalQualityRating, number, number][] = [
+      [SignalQualityRating.NONE, 0, 0],
+      [SignalQualityRating.POOR, 0, 2],
+      [SignalQualityRating.OK, 1, 2],
+      [SignalQualityRating.GOOD, 3, 4],
+      [SignalQualityRating.EXCELLENT, 5, 5],
+      [SignalQualityRating.RANDOM, 0, 5]
+    ]
+    const random = createRandom(1)
+
+    for (const [rating, min, max] of bands) {
+      const model = new RatingSignalModel(rating)
+
+      for (let i = 0; i < 50; i++) {
+        const quality = model.sample(0, random)
+        assert.ok(quality >= min && quality <= max, `${SignalQualityRating[rating]} sampled ${quality}`)
+      }
+    }
+  })
+
+  it('samples every 15 to 60 seconds', () => {
+    const model = new RatingSignalModel(SignalQualityRating.GOOD)
+
+    assert.strictEqual(model.interval(() => 0), 15 * 1000)
+    assert.strictEqual(model.interval(() => 0.99999), 60 * 1000)
+  })
+})
@@ -0,0 +1,106 @@
+/* eslint-disable no-unused-vars */
+import { randomInterval } from '../utils'
+
+const SECOND = 1000
+const MINUTE = SECOND * 60
+
+export enum SignalQualityRating {
+  NONE,
+  POOR,
+  OK,
+  GOOD,
+  EXCELLENT,
+  RANDOM
+}
+
+export enum SignalQuality {
+  NONE = 0,
+  ONE = 1,
+  TWO = 2,
+  THREE = 3,
+  FOUR = 4,
+  FIVE = 5
+}
+
+/**
+ * Determines the signal quality seen by the emulator over time.
+ */
+export interface SignalModel {
+  /** Human readable description of the model used in logs */
+  readonly description: string
+
+  /**
+   * Returns the signal quality at the given time.
+   *
+   * @param time milliseconds since the unix epoch
+   * @param random source of randomness in the range [0, 1)
+   */
+  sample (time: number, random: () => number): SignalQuality
+
+  /**
+   * Returns the number of milliseconds until the next sample.
+   */
+  interval (random: () => number): number
+
+  /**
+   * Indicates if network service was available at the last sample.
+   * When not implemented service is available with one or more bars.
+   */
+  serviceAvailable? (): boolean
+}
+
+/**
+ * Picks a random signal quality within the band of the configured
+ * rating every 15 to 60 seconds.
+ */
+export class RatingSignalModel implements SignalModel {
+  #rating: SignalQualityRating
+
+  get rating () {
+    return this.#rating
+  }
+
+  get description () {
+    return `${SignalQualityRating[this.#rating]} signal quality rating`
+  }
+
+  constructor (rating: SignalQualityRating) {
+    this.#rating = rating
+  }
+
+  sample (_time: number, random: () => number): SignalQuality {
+    let minSignalQuality, maxSignalQuality
+
+    switch (this.#rating) {
+      case SignalQualityRating.NONE:
+        minSignalQuality = SignalQuality.NONE
+        maxSignalQuality = SignalQuality.NONE
+        break
+      case SignalQualityRating.POOR:
+        minSignalQuality = SignalQuality.NONE
+        maxSignalQuality = SignalQuality.TWO
+        break
+      case SignalQualityRating.OK:
+        minSignalQuality = SignalQuality.ONE
+        maxSignalQuality = SignalQuality.TWO
+        break
+      case SignalQualityRating.GOOD:
+        minSignalQuality = SignalQuality.THREE
+        maxSignalQuality = SignalQuality.FOUR
+        break
+      case SignalQualityRating.EXCELLENT:
+        minSignalQuality = SignalQuality.FIVE
+        maxSignalQuality = SignalQuality.FIVE
+        break
+      case SignalQualityRating.RANDOM:
+        minSignalQuality = SignalQuality.NONE
+        maxSignalQuality = SignalQuality.FIVE
+    }
+
+    return randomInterval(minSignalQuality, maxSignalQuality, random) as SignalQuality
+  }
+
+  interval (random: () => number) {
+    return randomInterval(15 * SECOND, 1 * MINUTE, random)
+  }
+}
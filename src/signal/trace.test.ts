@@ -0,0 +1,81 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { Harness } from '../testing/harness'
+import { parseSignalTrace, TraceSignalModel } from './trace'
+
+const TRACE = `timestamp,bars,service
+2024-05-01T10:00:00Z,+CSQ:3,"+CIEV:1,1"
+2024-05-01T10:00:30Z,+CSQ:0,"+CIEV:1,0"
+2024-05-01T10:01:00Z,5,1
+not,a,sample
+`
+
+describe('parseSignalTrace', () => {
+  it('parses raw readings and plain numbers, skipping other rows', () => {
+    assert.deepStrictEqual(parseSignalTrace(TRACE), [
+      { timestamp: Date.parse('2024-05-01T10:00:00Z'), bars: 3, serviceAvailable: true },
+      { timestamp: Date.parse('2024-05-01T10:00:30Z'), bars: 0, serviceAvailable: false },
+      { timestamp: Date.parse('2024-05-01T10:01:00Z'), bars: 5, serviceAvailable: true }
+    ])
+  })
+})
+
+describe('TraceSignalModel', () => {
+  it('plays back the trace from the first sample taken', () => {
+    const model = TraceSignalModel.fromCsv(TRACE)
+
+    assert.strictEqual(model.sample(1000), 3)
+    assert.strictEqual(model.interval(), 30 * 1000)
+    assert.strictEqual(model.sample(31000), 0)
+    assert.strictEqual(model.serviceAvailable(), false)
+    assert.strictEqual(model.sample(61000), 5)
+  })
+
+  it('plays back faster at a higher speed', () => {
+    const model = TraceSignalModel.fromCsv(TRACE, { speed: 2 })
+
+    assert.strictEqual(model.sample(0), 3)
+    assert.strictEqual(model.interval(), 15 * 1000)
+    assert.strictEqual(model.sample(15000), 0)
+    assert.strictEqual(model.sample(30000), 5)
+  })
+
+  it('holds the last sample once the trace has finished', () => {
+    const model = TraceSignalModel.fromCsv(TRACE)
+
+    model.sample(0)
+    assert.strictEqual(model.sample(10 * 60 * 1000), 5)
+    assert.strictEqual(model.interval(), 60 * 1000)
+  })
+
+  it('restarts a looping trace after holding the last sample', () => {
+    const model = TraceSignalModel.fromCsv(TRACE, { loop: true })
+
+    model.sample(0)
+    assert.strictEqual(model.sample(60 * 1000), 5)
+    assert.strictEqual(model.interval(), 30 * 1000)
+    assert.strictEqual(model.sample(90 * 1000), 3)
+  })
+
+  it('rejects a speed of zero', () => {
+    assert.throws(() => TraceSignalModel.fromCsv(TRACE, { speed: 0 }), RangeError)
+  })
+
+  it('rejects a trace without samples', () => {
+    assert.throws(() => TraceSignalModel.fromCsv('timestamp,bars\n'), RangeError)
+  })
+
+  it('drives the signal quality reported by the emulator', async () => {
+    const harness = new Harness({ signalModel: TraceSignalModel.fromCsv(TRACE) })
+
+    try {
+      assert.deepStrictEqual(await harness.command('AT+CSQ', 5000), ['+CSQ:3', 'OK'])
+
+      await harness.clock.advance(30 * 1000)
+      assert.deepStrictEqual(await harness.command('AT+CSQ', 5000), ['+CSQ:0', 'OK'])
+    } finally {
+      await harness.close()
+    }
+  })
+})
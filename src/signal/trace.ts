@@ -0,0 +1,186 @@
+import fs from 'fs'
+
+import { SignalModel, SignalQuality } from './model'
+
+export type SignalTraceSample = {
+  /** Milliseconds since the unix epoch the reading was taken */
+  timestamp: number
+  bars: SignalQuality
+  serviceAvailable: boolean
+}
+
+/**
+ * Parses a timestamp given as ISO 8601, epoch seconds or epoch
+ * milliseconds.
+ */
+function parseTimestamp (value: string) {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const numeric = Number(value)
+    return numeric > 1e11 ? numeric : numeric * 1000
+  }
+
+  return Date.parse(value)
+}
+
+/**
+ * Splits a CSV line into columns, respecting quoted columns.
+ */
+function splitColumns (line: string) {
+  const columns: string[] = []
+  let column = ''
+  let quoted = false
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted
+    } else if (char === ',' && !quoted) {
+      columns.push(column.trim())
+      column = ''
+    } else {
+      column += char
+    }
+  }
+
+  columns.push(column.trim())
+  return columns
+}
+
+/**
+ * Parses a signal trace from CSV with the columns timestamp, bars
+ * and (optionally) service availability. Values may be given as the
+ * raw readings, eg. `+CSQ:3` and `+CIEV:1,1`. A header row and
+ * rows that cannot be parsed are skipped.
+ */
+export function parseSignalTrace (csv: string): SignalTraceSample[] {
+  const samples: SignalTraceSample[] = []
+
+  for (const line of csv.split(/\r?\n/)) {
+    if (line.trim() === '') continue
+
+    const [timestampColumn, barsColumn, serviceColumn] = splitColumns(line)
+
+    const timestamp = parseTimestamp(timestampColumn ?? '')
+    const bars = Number((barsColumn ?? '').match(/(\d+)$/)?.[1])
+    if (isNaN(timestamp) || isNaN(bars)) continue
+
+    const service = Number((serviceColumn ?? '').match(/(\d+)$/)?.[1])
+
+    samples.push({
+      timestamp,
+      bars: Math.max(SignalQuality.NONE, Math.min(SignalQuality.FIVE, bars)) as SignalQuality,
+      serviceAvailable: isNaN(service) ? bars > 0 : service > 0
+    })
+  }
+
+  return samples.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * Signal model that plays back a recorded trace of signal quality
+ * and service availability. The trace starts from the first sample
+ * taken by the emulator.
+ */
+export class TraceSignalModel implements SignalModel {
+  #samples: SignalTraceSample[]
+
+  get samples () {
+    return this.#samples
+  }
+
+  /** Indicates if the trace should restart once it has finished */
+  #loop: boolean
+
+  /** Playback speed, eg. 60 plays an hour long trace in a minute */
+  #speed: number
+
+  /** Emulator time the playback started */
+  #start: number | null = null
+
+  /** Index of the sample currently being played */
+  #index = 0
+
+  /** Milliseconds into the trace of the current sample */
+  #offset = 0
+
+  get description () {
+    return `signal trace of ${this.#samples.length} samples${this.#loop ? ' (looping)' : ''}`
+  }
+
+  get duration () {
+    return this.#samples.length === 0 ? 0 : this.#samples[this.#samples.length - 1].timestamp - this.#samples[0].timestamp
+  }
+
+  constructor ({
+    samples,
+    loop = false,
+    speed = 1
+  }: {
+    samples: SignalTraceSample[],
+    loop?: boolean,
+    /** Playback speed, eg. 2 plays the trace twice as fast as recorded */
+    speed?: number
+  }) {
+    if (samples.length === 0) throw RangeError('Expected the signal trace to contain at least one sample')
+    if (speed <= 0) throw RangeError(`Expected speed to be greater than 0 but was ${speed}`)
+
+    this.#samples = [...samples].sort((a, b) => a.timestamp - b.timestamp)
+    this.#loop = loop
+    this.#speed = speed
+  }
+
+  static fromCsv (csv: string, options: { loop?: boolean, speed?: number } = {}) {
+    return new TraceSignalModel({ ...options, samples: parseSignalTrace(csv) })
+  }
+
+  static fromFile (path: string, options: { loop?: boolean, speed?: number } = {}) {
+    return TraceSignalModel.fromCsv(fs.readFileSync(path).toString(), options)
+  }
+
+  sample (time: number): SignalQuality {
+    if (this.#start === null) this.#start = time
+
+    let offset = (time - this.#start) * this.#speed
+    // an additional sample interval is allowed so the last sample is played before looping
+    const duration = this.duration + this.#finalHold()
+
+    if (this.#loop && duration > 0) offset %= duration
+
+    const first = this.#samples[0].timestamp
+    let index = 0
+    while (index + 1 < this.#samples.length && this.#samples[index + 1].timestamp - first <= offset) index++
+
+    this.#index = index
+    this.#offset = offset
+
+    return this.#samples[index].bars
+  }
+
+  serviceAvailable () {
+    return this.#samples[this.#index].serviceAvailable
+  }
+
+  interval () {
+    const first = this.#samples[0].timestamp
+    const next = this.#samples[this.#index + 1]
+
+    let remaining: number
+    if (next !== undefined) {
+      remaining = next.timestamp - first - this.#offset
+    } else if (this.#loop) {
+      remaining = this.duration + this.#finalHold() - this.#offset
+    } else {
+      // the trace has finished, hold the last sample
+      remaining = 60 * 1000 * this.#speed
+    }
+
+    return Math.max(1, Math.ceil(remaining / this.#speed))
+  }
+
+  /**
+   * Time the last sample is held for before looping, taken as the
+   * average interval between samples.
+   */
+  #finalHold () {
+    return this.#samples.length > 1 ? this.duration / (this.#samples.length - 1) : 1000
+  }
+}
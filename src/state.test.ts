@@ -0,0 +1,72 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { factoryConfiguration, ModemState, readModemState, writeModemState } from './state'
+
+/** A valid modem state */
+function modemState (): ModemState {
+  return {
+    moSequenceNo: 3,
+    mtSequenceNo: 2,
+    moBuffer: '68656c6c6f',
+    mtBuffer: '',
+    mtQueue: ['6869'],
+    profiles: [factoryConfiguration(), factoryConfiguration()],
+    defaultProfile: 1,
+    lockStatus: 0
+  }
+}
+
+describe('modem state', () => {
+  let directory: string
+  let file: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'iridium-state-'))
+    file = path.join(directory, 'state.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('returns null when there is no state file', () => {
+    assert.strictEqual(readModemState(file), null)
+  })
+
+  it('reads the state written', () => {
+    writeModemState(file, modemState())
+
+    assert.deepStrictEqual(readModemState(file), modemState())
+    assert.ok(!fs.existsSync(`${file}.tmp`))
+  })
+
+  it('rejects a partially written file', () => {
+    fs.writeFileSync(file, JSON.stringify(modemState()).slice(0, 40))
+
+    assert.throws(() => readModemState(file), TypeError)
+  })
+
+  it('rejects invalid fields', () => {
+    const invalid: [keyof ModemState, unknown][] = [
+      ['moSequenceNo', -1],
+      ['mtSequenceNo', '2'],
+      ['moBuffer', 'xyz'],
+      ['mtQueue', ['6869', 1]],
+      ['profiles', [factoryConfiguration()]],
+      ['profiles', [factoryConfiguration(), { ...factoryConfiguration(), registers: [13, 10] }]],
+      ['profiles', [factoryConfiguration(), { ...factoryConfiguration(), echo: 'yes' }]],
+      ['defaultProfile', 2],
+      ['lockStatus', 7]
+    ]
+
+    for (const [field, value] of invalid) {
+      fs.writeFileSync(file, JSON.stringify({ ...modemState(), [field]: value }))
+
+      assert.throws(() => readModemState(file), new RegExp(field), `${field} of ${JSON.stringify(value)}`)
+    }
+  })
+})
@@ -0,0 +1,115 @@
+import fs from 'fs'
+
+import { S_REGISTER_COUNT, SRegisters } from './at'
+
+/** The settings stored by AT&W and restored by ATZ */
+export type ModemConfiguration = {
+  echo: boolean
+  quiet: boolean
+  verbose: boolean
+  flowControl: boolean
+  dtrMode: number
+  registers: number[]
+}
+
+/** The state the ISU keeps in non-volatile memory across power cycles */
+export type ModemState = {
+  moSequenceNo: number
+  mtSequenceNo: number
+  /** Contents of the MO buffer, hex encoded */
+  moBuffer: string
+  /** Contents of the MT buffer, hex encoded */
+  mtBuffer: string
+  /** Messages waiting in the "remote" MT queue, hex encoded */
+  mtQueue: string[]
+  /** Stored configuration profiles 0 and 1 */
+  profiles: ModemConfiguration[]
+  /** The stored profile restored at power up (AT&Y) */
+  defaultProfile: number
+  /** The lock applied by the gateway (AT+CULK) */
+  lockStatus?: number
+}
+
+/**
+ * Returns the factory default configuration (AT&F0).
+ */
+export function factoryConfiguration (): ModemConfiguration {
+  return {
+    echo: true,
+    quiet: false,
+    verbose: true,
+    flowControl: false,
+    dtrMode: 2,
+    registers: new SRegisters().values
+  }
+}
+
+/** Narrows a value read from a state file to hex encoded bytes */
+function isHex (value: unknown): value is string {
+  return typeof value === 'string' && value.length % 2 === 0 && /^[0-9a-f]*$/i.test(value)
+}
+
+/** Narrows a value read from a state file to an integer between min and max */
+function isInteger (value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+/**
+ * Narrows a value read from a state file to a stored configuration.
+ * The DTR mode is missing from files written before AT&D was stored.
+ */
+export function isModemConfiguration (value: unknown): value is ModemConfiguration {
+  if (value === null || typeof value !== 'object') return false
+
+  const { echo, quiet, verbose, flowControl, dtrMode, registers } = value as Record<string, unknown>
+
+  return typeof echo === 'boolean' && typeof quiet === 'boolean' && typeof verbose === 'boolean' &&
+    typeof flowControl === 'boolean' && (dtrMode === undefined || isInteger(dtrMode, 0, 3)) &&
+    Array.isArray(registers) && registers.length === S_REGISTER_COUNT &&
+    registers.every((register) => isInteger(register, 0, 255))
+}
+
+/**
+ * Reads the modem state from a JSON state file, returning null if
+ * the file does not exist yet. Every field is validated, so a
+ * malformed or partially written file is rejected as a whole.
+ */
+export function readModemState (path: string): ModemState | null {
+  if (!fs.existsSync(path)) return null
+
+  let state: unknown
+
+  try {
+    state = JSON.parse(fs.readFileSync(path, 'utf8'))
+  } catch (error) {
+    throw TypeError(`Expected '${path}' to contain JSON. ${error instanceof Error ? error.message : error}`)
+  }
+
+  const invalid = (field: string) => TypeError(`Expected '${path}' to be a modem state file but ${field} was invalid`)
+
+  if (state === null || typeof state !== 'object') throw invalid('the file')
+
+  const { moSequenceNo, mtSequenceNo, moBuffer, mtBuffer, mtQueue, profiles, defaultProfile, lockStatus } = state as Record<string, unknown>
+
+  if (!isInteger(moSequenceNo, 0, 65535)) throw invalid('moSequenceNo')
+  if (!isInteger(mtSequenceNo, 0, 65535)) throw invalid('mtSequenceNo')
+  if (!isHex(moBuffer)) throw invalid('moBuffer')
+  if (!isHex(mtBuffer)) throw invalid('mtBuffer')
+  if (!Array.isArray(mtQueue) || !mtQueue.every(isHex)) throw invalid('mtQueue')
+  if (!Array.isArray(profiles) || profiles.length !== 2 || !profiles.every(isModemConfiguration)) throw invalid('profiles')
+  if (!isInteger(defaultProfile, 0, 1)) throw invalid('defaultProfile')
+  if (lockStatus !== undefined && !isInteger(lockStatus, 0, 2)) throw invalid('lockStatus')
+
+  return { moSequenceNo, mtSequenceNo, moBuffer, mtBuffer, mtQueue, profiles, defaultProfile, ...isInteger(lockStatus, 0, 2) && { lockStatus } }
+}
+
+/**
+ * Writes the modem state to a JSON state file. The file is replaced
+ * atomically so an interrupted write cannot corrupt the state.
+ */
+export function writeModemState (path: string, state: ModemState): void {
+  const temporaryPath = `${path}.tmp`
+
+  fs.writeFileSync(temporaryPath, JSON.stringify(state, null, 2))
+  fs.renameSync(temporaryPath, path)
+}
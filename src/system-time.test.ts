@@ -0,0 +1,51 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { VirtualClock } from './clock'
+import { formatIridiumSystemTime, IRIDIUM_EPOCH, iridiumEpoch, iridiumSystemTime, LEGACY_IRIDIUM_EPOCHS, NetworkClock } from './system-time'
+
+describe('iridiumSystemTime', () => {
+  it('counts 90 ms frames since the Iridium epoch', () => {
+    assert.strictEqual(iridiumSystemTime(IRIDIUM_EPOCH), 0)
+    assert.strictEqual(iridiumSystemTime(IRIDIUM_EPOCH + 89), 0)
+    assert.strictEqual(iridiumSystemTime(IRIDIUM_EPOCH + 90 * 1000), 1000)
+  })
+
+  it('counts from the epoch in effect at the time', () => {
+    assert.strictEqual(iridiumEpoch(IRIDIUM_EPOCH - 1), LEGACY_IRIDIUM_EPOCHS[1])
+    assert.strictEqual(iridiumSystemTime(IRIDIUM_EPOCH - 90), Math.floor((IRIDIUM_EPOCH - 90 - LEGACY_IRIDIUM_EPOCHS[1]) / 90))
+  })
+
+  it('wraps at 32 bits', () => {
+    assert.strictEqual(iridiumSystemTime(IRIDIUM_EPOCH + 0x100000001 * 90), 1)
+  })
+
+  it('formats the system time as 8 hex digits', () => {
+    assert.strictEqual(formatIridiumSystemTime(0xabc), '00000abc')
+  })
+})
+
+describe('NetworkClock', () => {
+  it('skews the network time from the emulator clock', async () => {
+    const clock = new VirtualClock(IRIDIUM_EPOCH)
+    const network = new NetworkClock({ clock, skew: 900 })
+
+    assert.strictEqual(network.systemTime(), 10)
+
+    network.skew = -900
+    await clock.advance(1800)
+    assert.strictEqual(network.systemTime(), 10)
+  })
+
+  it('stays at the frozen time until unfrozen', async () => {
+    const clock = new VirtualClock(IRIDIUM_EPOCH)
+    const network = new NetworkClock({ clock })
+
+    network.freeze()
+    await clock.advance(9000)
+    assert.strictEqual(network.now(), IRIDIUM_EPOCH)
+
+    network.unfreeze()
+    assert.strictEqual(network.systemTime(), 100)
+  })
+})
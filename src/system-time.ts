@@ -0,0 +1,105 @@
+import { Clock, systemClock } from './clock'
+
+/** The Iridium epoch in effect since 11 May 2014 14:23:55 UTC */
+export const IRIDIUM_EPOCH = Date.UTC(2014, 4, 11, 14, 23, 55)
+
+/** Earlier Iridium epochs, each in effect until the next epoch */
+export const LEGACY_IRIDIUM_EPOCHS = [
+  Date.UTC(1996, 5, 1, 0, 0, 11),
+  Date.UTC(2007, 2, 8, 3, 50, 35)
+]
+
+/** Length in milliseconds of the L-band frame counted by Iridium system time */
+export const IRIDIUM_FRAME_LENGTH = 90
+
+/**
+ * Returns the Iridium epoch in effect at the given time.
+ */
+export function iridiumEpoch (time: number) {
+  const epochs = [...LEGACY_IRIDIUM_EPOCHS, IRIDIUM_EPOCH]
+
+  return epochs.filter((epoch) => epoch <= time).pop() ?? epochs[0]
+}
+
+/**
+ * Returns the Iridium system time at the given time, the 32 bit count
+ * of 90 ms frames since the Iridium epoch in effect.
+ */
+export function iridiumSystemTime (time: number) {
+  const frames = Math.floor((time - iridiumEpoch(time)) / IRIDIUM_FRAME_LENGTH)
+
+  return ((frames % 0x100000000) + 0x100000000) % 0x100000000
+}
+
+/**
+ * Formats an Iridium system time as in the AT-MSSTM response.
+ */
+export function formatIridiumSystemTime (systemTime: number) {
+  return systemTime.toString(16).padStart(8, '0')
+}
+
+/**
+ * The time kept by the Iridium network, as seen by the ISU. The
+ * network clock may be skewed from, or frozen independently of, the
+ * emulator clock to test clock drift and epoch handling.
+ */
+export class NetworkClock {
+  #clock: Clock
+
+  /** Milliseconds the network time is ahead of the emulator clock */
+  #skew: number
+
+  get skew () {
+    return this.#skew
+  }
+
+  set skew (skew: number) {
+    this.#skew = skew
+  }
+
+  /** The time the network clock is frozen at, if frozen */
+  #frozenAt: number | null
+
+  get frozenAt () {
+    return this.#frozenAt
+  }
+
+  constructor ({
+    clock = systemClock,
+    skew = 0,
+    frozenAt
+  }: {
+    clock?: Clock,
+    skew?: number,
+    frozenAt?: number | Date
+  } = {}) {
+    this.#clock = clock
+    this.#skew = skew
+    this.#frozenAt = frozenAt === undefined ? null : Number(frozenAt)
+  }
+
+  /** The current network time in milliseconds since the unix epoch */
+  now = (): number => {
+    return this.#frozenAt ?? this.#clock.now() + this.#skew
+  }
+
+  /**
+   * Stops the network clock at the given time, or the current
+   * network time.
+   */
+  freeze = (time?: number | Date): void => {
+    this.#frozenAt = time === undefined ? this.now() : Number(time)
+  }
+
+  /**
+   * Restarts a frozen network clock from the emulator clock.
+   */
+  unfreeze = (): void => {
+    this.#frozenAt = null
+  }
+
+  /** The current Iridium system time */
+  systemTime = (): number => {
+    return iridiumSystemTime(this.now())
+  }
+}
@@ -0,0 +1,94 @@
+import { generateKeyPairSync } from 'crypto'
+
+import { IridiumEmulator, IridiumEmulatorOptions } from '../emulator'
+import { SignalQualityRating } from '../signal'
+import { MemoryTransport } from '../transports'
+import { VirtualClock } from '../clock'
+
+/** Time the emulator is started at in tests */
+export const START_TIME = Date.UTC(2024, 0, 1)
+
+let signerKey: string | null = null
+
+/**
+ * Returns a PEM encoded private key for signing JWTs, generated once
+ * per test run.
+ */
+export function testSignerKey () {
+  signerKey ??= generateKeyPairSync('rsa', { modulusLength: 1024 })
+    .privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+
+  return signerKey
+}
+
+/**
+ * An emulator driven over a memory transport with a virtual clock.
+ */
+export class Harness {
+  clock: VirtualClock
+
+  transport: MemoryTransport
+
+  emulator: IridiumEmulator
+
+  /** Output from the emulator not yet taken with `read()` */
+  #output = Buffer.alloc(0)
+
+  constructor (options: Partial<IridiumEmulatorOptions> = {}) {
+    this.clock = options.clock instanceof VirtualClock ? options.clock : new VirtualClock(START_TIME)
+    this.transport = options.transport instanceof MemoryTransport ? options.transport : new MemoryTransport()
+
+    this.transport.dte.on('data', (chunk: Buffer) => {
+      this.#output = Buffer.concat([this.#output, chunk])
+    })
+
+    this.emulator = new IridiumEmulator({
+      signalQualityRating: SignalQualityRating.EXCELLENT,
+      seed: 1,
+      jwtSignerKey: testSignerKey(),
+      ...options,
+      transport: this.transport,
+      clock: this.clock
+    })
+  }
+
+  /** Takes the output written by the emulator so far */
+  read (): string {
+    const output = this.#output.toString()
+    this.#output = Buffer.alloc(0)
+    return output
+  }
+
+  /** Takes the output written by the emulator so far as non-empty lines */
+  readLines (): string[] {
+    return this.read().split(/\r\n|\r|\n/).filter((line) => line !== '')
+  }
+
+  /** Takes the raw output written by the emulator so far */
+  readBuffer (): Buffer {
+    const output = this.#output
+    this.#output = Buffer.alloc(0)
+    return output
+  }
+
+  /** Writes to the emulator and advances the clock */
+  send = async (data: string | Buffer, ms = 1000): Promise<void> => {
+    this.transport.dte.write(data)
+    await this.clock.advance(ms)
+  }
+
+  /**
+   * Sends a command line, terminated by <CR>, and returns the
+   * response lines, without the echo and empty lines.
+   */
+  command = async (line: string, ms = 1000): Promise<string[]> => {
+    this.read()
+    await this.send(line + '\r', ms)
+
+    return this.readLines().filter((response) => response !== line)
+  }
+
+  close = async (): Promise<void> => {
+    await this.emulator.close()
+  }
+}
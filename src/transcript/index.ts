@@ -0,0 +1,3 @@
+export * from './transcript'
+export * from './recorder'
+export * from './replay'
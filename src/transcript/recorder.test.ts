@@ -0,0 +1,37 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { Harness } from '../testing/harness'
+import { TranscriptRecorder } from './recorder'
+import { transcriptEntryBytes } from './transcript'
+
+describe('TranscriptRecorder', () => {
+  it('records the bytes exchanged with the emulator', async () => {
+    const recorder = new TranscriptRecorder()
+    const harness = new Harness({ transcript: recorder })
+
+    try {
+      await harness.send('AT+SBDWT=héllo wörld\r')
+      await harness.send('AT+SBDTC\r')
+      await harness.send('AT+SBDRT\r')
+
+      const sent = harness.readBuffer()
+      const recorded = (direction: 'in' | 'out') => Buffer.concat(recorder.entries
+        .filter((entry) => entry.direction === direction)
+        .map(transcriptEntryBytes))
+
+      assert.ok(sent.includes(Buffer.from('héllo wörld')))
+      assert.deepStrictEqual(recorded('out'), sent)
+      assert.deepStrictEqual(recorded('in'), Buffer.from('AT+SBDWT=héllo wörld\rAT+SBDTC\rAT+SBDRT\r'))
+    } finally {
+      await harness.close()
+    }
+  })
+
+  it('encodes recorded text as UTF-8', () => {
+    const recorder = new TranscriptRecorder()
+    recorder.record('out', 'text', 'ü')
+
+    assert.deepStrictEqual(transcriptEntryBytes(recorder.entries[0]), Buffer.from('ü'))
+  })
+})
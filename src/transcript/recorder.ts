@@ -0,0 +1,76 @@
+import fs from 'fs'
+
+import { Clock, systemClock } from '../clock'
+import { createTranscriptEntry, TranscriptDirection, TranscriptEntry, TranscriptMode } from './transcript'
+
+/**
+ * Records the bytes exchanged between the DTE and the modem, with
+ * timestamps and mode, optionally appending them to a JSON Lines
+ * transcript file as they happen.
+ */
+export class TranscriptRecorder {
+  #entries: TranscriptEntry[] = []
+
+  get entries () {
+    return this.#entries
+  }
+
+  #path: string | null
+
+  get path () {
+    return this.#path
+  }
+
+  #file: fs.WriteStream | null = null
+
+  #clock: Clock
+
+  /** The time the recording started */
+  #start: number
+
+  constructor ({
+    path,
+    clock = systemClock
+  }: {
+    path?: string,
+    clock?: Clock
+  } = {}) {
+    this.#path = path ?? null
+    this.#clock = clock
+    this.#start = clock.now()
+
+    if (this.#path) this.#file = fs.createWriteStream(this.#path)
+  }
+
+  /**
+   * Records the bytes transferred in one direction. Text is encoded
+   * as UTF-8, as it is when written to a stream.
+   */
+  record = (direction: TranscriptDirection, mode: TranscriptMode, data: Buffer | string): void => {
+    const bytes = Buffer.isBuffer(data) ? data : Buffer.from(data)
+    if (bytes.length === 0) return
+
+    const entry = createTranscriptEntry(this.#clock.now() - this.#start, direction, mode, bytes)
+
+    this.#entries.push(entry)
+    this.#file?.write(JSON.stringify(entry) + '\n')
+  }
+
+  /**
+   * Returns the transcript in the JSON Lines format.
+   */
+  toString () {
+    return this.#entries.map((entry) => JSON.stringify(entry) + '\n').join('')
+  }
+
+  /**
+   * Closes the transcript file, if any.
+   */
+  close = (): Promise<void> => {
+    const file = this.#file
+    if (!file) return Promise.resolve()
+
+    this.#file = null
+    return new Promise((resolve) => file.end(resolve))
+  }
+}
@@ -0,0 +1,80 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { Harness, START_TIME } from '../testing/harness'
+import { VirtualClock } from '../clock'
+import { MemoryTransport } from '../transports'
+import { TranscriptRecorder } from './recorder'
+import { TranscriptReplay } from './replay'
+import { TranscriptEntry } from './transcript'
+
+describe('TranscriptReplay', () => {
+  it('replays the commands of a recorded session against the emulator', async () => {
+    const recorder = new TranscriptRecorder()
+    const recording = new Harness({ transcript: recorder })
+
+    try {
+      await recording.command('AT+SBDWT=hello')
+      await recording.command('AT+CGSN')
+    } finally {
+      await recording.close()
+    }
+
+    const harness = new Harness()
+
+    try {
+      const replay = new TranscriptReplay({ entries: recorder.entries, role: 'dte', stream: harness.transport.dte, clock: harness.clock })
+      const result = replay.run()
+      await harness.clock.advance(5000)
+
+      const { exchanges, mismatches } = await result
+      assert.strictEqual(exchanges, 2)
+      assert.deepStrictEqual(mismatches, [])
+    } finally {
+      await harness.close()
+    }
+  })
+
+  it('reports responses which differ from the recording', async () => {
+    const harness = new Harness()
+    const entries: TranscriptEntry[] = [
+      { time: 0, direction: 'in', mode: 'text', data: 'AT+CGMM\r' },
+      { time: 10, direction: 'out', mode: 'text', data: 'AT+CGMM\r\nIRIDIUM 9522B\r\n\r\nOK\r\n' }
+    ]
+
+    try {
+      const replay = new TranscriptReplay({ entries, role: 'dte', stream: harness.transport.dte, clock: harness.clock, timeout: 1000 })
+      const result = replay.run()
+      await harness.clock.advance(5000)
+
+      const { mismatches } = await result
+      assert.strictEqual(mismatches.length, 1)
+      assert.strictEqual(mismatches[0].index, 1)
+    } finally {
+      await harness.close()
+    }
+  })
+
+  it('keeps the recorded timing at the given speed', async () => {
+    const clock = new VirtualClock(START_TIME)
+    const transport = new MemoryTransport()
+    const entries: TranscriptEntry[] = [
+      { time: 0, direction: 'in', mode: 'text', data: 'AT\r' },
+      { time: 1000, direction: 'in', mode: 'text', data: 'ATE0\r' }
+    ]
+
+    const sent: number[] = []
+    const replay = new TranscriptReplay({ entries, role: 'dte', stream: transport.dte, timing: true, speed: 2, clock })
+    replay.on('sent', () => sent.push(clock.now() - START_TIME))
+
+    const result = replay.run()
+    await clock.advance(1000)
+    await result
+
+    assert.deepStrictEqual(sent, [0, 500])
+  })
+
+  it('rejects a speed of zero', () => {
+    assert.throws(() => new TranscriptReplay({ entries: [], role: 'dte', stream: new MemoryTransport().dte, speed: 0 }), RangeError)
+  })
+})
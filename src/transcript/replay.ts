@@ -0,0 +1,191 @@
+import { Duplex } from 'stream'
+import { TypedEmitter } from 'tiny-typed-emitter'
+
+import { Clock, systemClock } from '../clock'
+import { delay } from '../utils'
+import { TranscriptDirection, TranscriptEntry, transcriptEntryBytes } from './transcript'
+
+/** The side of the exchange played by the transcript */
+export type TranscriptRole = 'dte' | 'modem'
+
+export type ReplayMismatch = {
+  /** Index of the first transcript entry of the expected exchange */
+  index: number
+  expected: Buffer
+  actual: Buffer
+}
+
+export type ReplayResult = {
+  /** Number of expected exchanges that were checked */
+  exchanges: number
+  mismatches: ReplayMismatch[]
+}
+
+export interface TranscriptReplayInterface {
+  'sent': (entry: TranscriptEntry) => void
+  'matched': (index: number, data: Buffer) => void
+  'mismatch': (mismatch: ReplayMismatch) => void
+  'complete': (result: ReplayResult) => void
+}
+
+/**
+ * Plays back one side of a recorded transcript over a stream. As a
+ * scripted DTE the recorded commands are sent and the responses of
+ * the modem are checked against the recording, as a scripted modem
+ * the recorded responses are sent once the DTE has sent the recorded
+ * commands.
+ */
+export class TranscriptReplay extends TypedEmitter<TranscriptReplayInterface> {
+  #entries: TranscriptEntry[]
+
+  #role: TranscriptRole
+
+  get role () {
+    return this.#role
+  }
+
+  #stream: Duplex
+
+  /** Maximum time in milliseconds to wait for each expected exchange */
+  #timeout: number
+
+  /** Indicates if the recorded time between sent entries should be kept */
+  #timing: boolean
+
+  /** Playback speed of the recorded timing, eg. 2 halves the delays */
+  #speed: number
+
+  #stopOnMismatch: boolean
+
+  #clock: Clock
+
+  /** Bytes received which have not been checked yet */
+  #received = Buffer.alloc(0)
+
+  /** Resolves a pending wait for received bytes */
+  #notify: (() => void) | null = null
+
+  constructor ({
+    entries,
+    role,
+    stream,
+    timeout = 60000,
+    timing = false,
+    speed = 1,
+    stopOnMismatch = false,
+    clock = systemClock
+  }: {
+    entries: TranscriptEntry[],
+    role: TranscriptRole,
+    stream: Duplex,
+    timeout?: number,
+    timing?: boolean,
+    speed?: number,
+    stopOnMismatch?: boolean,
+    clock?: Clock
+  }) {
+    super()
+
+    if (speed <= 0) throw RangeError(`Expected speed to be greater than 0 but was ${speed}`)
+
+    this.#entries = entries
+    this.#role = role
+    this.#stream = stream
+    this.#timeout = timeout
+    this.#timing = timing
+    this.#speed = speed
+    this.#stopOnMismatch = stopOnMismatch
+    this.#clock = clock
+  }
+
+  /**
+   * Plays back the transcript, resolving once every entry has been
+   * sent or checked.
+   */
+  run = async (): Promise<ReplayResult> => {
+    const result: ReplayResult = { exchanges: 0, mismatches: [] }
+    const sends: TranscriptDirection = this.#role === 'dte' ? 'in' : 'out'
+
+    const onData = (chunk: Buffer) => {
+      this.#received = Buffer.concat([this.#received, chunk])
+      this.#notify?.()
+    }
+
+    this.#stream.on('data', onData)
+
+    try {
+      let index = 0
+      let lastSent: number | null = null
+
+      while (index < this.#entries.length) {
+        const entry = this.#entries[index]
+
+        if (entry.direction === sends) {
+          if (this.#timing && lastSent !== null) {
+            await delay(Math.max(0, entry.time - lastSent) / this.#speed, this.#clock)
+          }
+
+          this.#stream.write(transcriptEntryBytes(entry))
+          this.emit('sent', entry)
+
+          lastSent = entry.time
+          index++
+          continue
+        }
+
+        // gather the consecutive entries we expect to receive
+        const start = index
+        const chunks: Buffer[] = []
+        while (index < this.#entries.length && this.#entries[index].direction !== sends) {
+          chunks.push(transcriptEntryBytes(this.#entries[index]))
+          index++
+        }
+
+        const expected = Buffer.concat(chunks)
+        const actual = await this.#receive(expected.length)
+
+        result.exchanges++
+        lastSent = this.#entries[index - 1].time
+
+        if (actual.equals(expected)) {
+          this.emit('matched', start, actual)
+        } else {
+          const mismatch = { index: start, expected, actual }
+          result.mismatches.push(mismatch)
+          this.emit('mismatch', mismatch)
+
+          if (this.#stopOnMismatch) break
+        }
+      }
+    } finally {
+      this.#stream.off('data', onData)
+    }
+
+    this.emit('complete', result)
+    return result
+  }
+
+  /**
+   * Waits for the given number of bytes to be received, returning
+   * fewer bytes if the timeout expires first.
+   */
+  #receive (length: number): Promise<Buffer> {
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.#clock.clearTimeout(timeout)
+        this.#notify = null
+
+        const data = this.#received.subarray(0, length)
+        this.#received = this.#received.subarray(data.length)
+        resolve(data)
+      }
+
+      const timeout = this.#clock.setTimeout(finish, this.#timeout)
+
+      this.#notify = () => {
+        if (this.#received.length >= length) finish()
+      }
+      this.#notify()
+    })
+  }
+}
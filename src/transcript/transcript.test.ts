@@ -0,0 +1,60 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, it } from 'node:test'
+
+import { VirtualClock } from '../clock'
+import { TranscriptRecorder } from './recorder'
+import { createTranscriptEntry, parseTranscript, readTranscript, transcriptEntryBytes } from './transcript'
+
+describe('transcript entries', () => {
+  it('round trip the bytes of text and binary entries', () => {
+    const text = Buffer.from([0x41, 0x54, 0xe9, 0x0d])
+    const binary = Buffer.from([0x00, 0xff, 0x10])
+
+    assert.deepStrictEqual(transcriptEntryBytes(createTranscriptEntry(0, 'in', 'text', text)), text)
+    assert.deepStrictEqual(createTranscriptEntry(5, 'out', 'binary', binary), { time: 5, direction: 'out', mode: 'binary', data: '00ff10' })
+    assert.deepStrictEqual(transcriptEntryBytes(createTranscriptEntry(5, 'out', 'binary', binary)), binary)
+  })
+})
+
+describe('parseTranscript', () => {
+  it('parses one entry per line, skipping blank lines', () => {
+    const entries = parseTranscript('{"time":0,"direction":"in","mode":"text","data":"AT\\r"}\r\n\n{"time":10,"direction":"out","mode":"binary","data":"00"}\n')
+
+    assert.deepStrictEqual(entries.map((entry) => entry.time), [0, 10])
+  })
+
+  it('reports the line of an invalid entry', () => {
+    assert.throws(
+      () => parseTranscript('{"time":0,"direction":"in","mode":"text","data":""}\n{"time":0,"direction":"up","mode":"text","data":""}'),
+      { name: 'TypeError', message: 'Invalid transcript entry on line 2' }
+    )
+  })
+})
+
+describe('TranscriptRecorder', () => {
+  it('appends entries to the transcript file as they are recorded', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-'))
+    const file = path.join(directory, 'session.jsonl')
+    const clock = new VirtualClock(1000)
+
+    try {
+      const recorder = new TranscriptRecorder({ path: file, clock })
+      recorder.record('in', 'text', 'AT\r')
+      await clock.advance(250)
+      recorder.record('out', 'binary', Buffer.from([1, 2]))
+      recorder.record('out', 'text', '')
+      await recorder.close()
+
+      assert.deepStrictEqual(readTranscript(file), [
+        { time: 0, direction: 'in', mode: 'text', data: 'AT\r' },
+        { time: 250, direction: 'out', mode: 'binary', data: '0102' }
+      ])
+      assert.strictEqual(fs.readFileSync(file).toString(), recorder.toString())
+    } finally {
+      fs.rmSync(directory, { recursive: true })
+    }
+  })
+})
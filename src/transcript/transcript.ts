@@ -0,0 +1,64 @@
+import fs from 'fs'
+
+/** Direction of traffic, relative to the modem */
+export type TranscriptDirection = 'in' | 'out'
+
+export type TranscriptMode = 'text' | 'binary'
+
+export type TranscriptEntry = {
+  /** Milliseconds since the recording started */
+  time: number
+  /** `in` for bytes sent by the DTE, `out` for bytes sent by the modem */
+  direction: TranscriptDirection
+  mode: TranscriptMode
+  /** The bytes as text, one latin1 character per byte, or hex encoded in binary mode */
+  data: string
+}
+
+/**
+ * Creates a transcript entry from the bytes transferred.
+ */
+export function createTranscriptEntry (time: number, direction: TranscriptDirection, mode: TranscriptMode, data: Buffer): TranscriptEntry {
+  return {
+    time,
+    direction,
+    mode,
+    data: data.toString(mode === 'binary' ? 'hex' : 'latin1')
+  }
+}
+
+/**
+ * Returns the bytes transferred in a transcript entry.
+ */
+export function transcriptEntryBytes (entry: TranscriptEntry) {
+  return Buffer.from(entry.data, entry.mode === 'binary' ? 'hex' : 'latin1')
+}
+
+/**
+ * Parses a transcript in the JSON Lines format, one entry per line.
+ */
+export function parseTranscript (jsonl: string): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = []
+
+  jsonl.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return
+
+    const entry = JSON.parse(line)
+
+    if (typeof entry.time !== 'number' || !['in', 'out'].includes(entry.direction) ||
+      !['text', 'binary'].includes(entry.mode) || typeof entry.data !== 'string') {
+      throw TypeError(`Invalid transcript entry on line ${index + 1}`)
+    }
+
+    entries.push(entry)
+  })
+
+  return entries
+}
+
+/**
+ * Reads a transcript from a JSON Lines file.
+ */
+export function readTranscript (path: string) {
+  return parseTranscript(fs.readFileSync(path).toString())
+}
@@ -0,0 +1,5 @@
+export * from './transport'
+export * from './serial'
+export * from './memory'
+export * from './tcp'
+export * from './pty'
@@ -0,0 +1,47 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+import { Readable } from 'stream'
+
+import { MemoryTransport } from './memory'
+import { DteLines } from './transport'
+
+/** Resolves with the next chunk readable from a stream */
+function nextChunk (stream: Readable): Promise<Buffer> {
+  return new Promise((resolve) => stream.once('data', resolve))
+}
+
+describe('MemoryTransport', () => {
+  it('passes bytes between the emulator and the DTE', async () => {
+    const transport = new MemoryTransport()
+
+    let chunk = nextChunk(transport.stream)
+    transport.dte.writeLine('AT')
+    assert.strictEqual((await chunk).toString(), 'AT\r\n')
+
+    chunk = nextChunk(transport.dte)
+    transport.stream.write(Buffer.from([0x00, 0xff]))
+    assert.deepStrictEqual(await chunk, Buffer.from([0x00, 0xff]))
+  })
+
+  it('reports changes of the DTE driven lines', () => {
+    const transport = new MemoryTransport()
+    const changes: DteLines[] = []
+    transport.on('dte-lines', (lines) => changes.push(lines))
+
+    transport.dte.setLines({ dtr: false })
+    transport.dte.setLines({ dtr: false })
+    transport.dte.setLines({ rts: false })
+
+    assert.deepStrictEqual(changes, [{ dtr: false, rts: true }, { dtr: false, rts: false }])
+    assert.deepStrictEqual(transport.getDteLines(), { dtr: false, rts: false })
+  })
+
+  it('presents the emulator driven lines to the DTE', async () => {
+    const transport = new MemoryTransport()
+
+    assert.deepStrictEqual(transport.dte.getLines(), { cts: true, dsr: true, dcd: false, ri: false })
+
+    await transport.setModemLines({ ri: true })
+    assert.deepStrictEqual(transport.dte.getLines(), { cts: true, dsr: true, dcd: false, ri: true })
+  })
+})
@@ -0,0 +1,94 @@
+import { Duplex } from 'stream'
+
+import { DteLines, IridiumTransport } from './transport'
+
+/**
+ * One end of an in-memory byte pipe. Anything written to an
+ * endpoint is readable from its peer.
+ */
+class MemoryEndpoint extends Duplex {
+  peer: Duplex | null = null
+
+  _write (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+    this.peer?.push(chunk)
+    callback()
+  }
+
+  _read () {
+    // data is pushed by the peer as it is written
+  }
+}
+
+/**
+ * Fake DTE attached to a memory transport, used to drive the
+ * emulator from tests without a serial port.
+ */
+export class MemoryDte extends MemoryEndpoint {
+  #transport: IridiumTransport
+
+  #onSetLines: (lines: Partial<DteLines>) => void
+
+  constructor (transport: IridiumTransport, onSetLines: (lines: Partial<DteLines>) => void) {
+    super()
+    this.#transport = transport
+    this.#onSetLines = onSetLines
+  }
+
+  /** Writes a command followed by the default line terminator */
+  writeLine (line: string) {
+    this.write(line + '\r\n')
+  }
+
+  /** Drives the DTE control lines seen by the emulator */
+  setLines (lines: Partial<DteLines>) {
+    this.#onSetLines(lines)
+  }
+
+  /** Reads the emulator driven control lines */
+  getLines () {
+    return this.#transport.getModemLines()
+  }
+}
+
+/**
+ * Transport that connects the emulator to an in-process fake DTE.
+ */
+export class MemoryTransport extends IridiumTransport {
+  #stream: MemoryEndpoint
+
+  get stream () {
+    return this.#stream
+  }
+
+  #dte: MemoryDte
+
+  /** The DTE end of the transport */
+  get dte () {
+    return this.#dte
+  }
+
+  get description () {
+    return 'in-memory transport'
+  }
+
+  constructor () {
+    super()
+
+    this.#stream = new MemoryEndpoint()
+    this.#dte = new MemoryDte(this, (lines) => this.setDteLines(lines))
+    this.#stream.peer = this.#dte
+    this.#dte.peer = this.#stream
+  }
+
+  async open (): Promise<void> {
+    this.emit('open')
+  }
+
+  async close (): Promise<void> {
+    this.emit('close')
+  }
+
+  setDteLines (lines: Partial<DteLines>) {
+    this.updateDteLines(lines)
+  }
+}
@@ -0,0 +1,61 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, it } from 'node:test'
+
+import { PtyTransport } from './pty'
+
+/** Indicates if the optional node-pty dependency is installed */
+function hasNodePty () {
+  try {
+    require.resolve('node-pty')
+    return process.platform === 'linux'
+  } catch (error) {
+    return false
+  }
+}
+
+describe('PtyTransport', { skip: !hasNodePty() }, () => {
+  it('passes bytes between the emulator and the slave device', async () => {
+    const transport = new PtyTransport()
+    await transport.open()
+
+    // non-blocking, so that missing output fails the test rather than hanging it
+    const { O_RDWR, O_NOCTTY, O_NONBLOCK } = fs.constants
+    const slave = fs.openSync(transport.path as string, O_RDWR | O_NOCTTY | O_NONBLOCK)
+
+    try {
+      const chunk = new Promise<Buffer>((resolve) => transport.stream.once('data', resolve))
+      fs.writeSync(slave, 'AT\r')
+      assert.strictEqual((await chunk).toString(), 'AT\r')
+
+      transport.stream.write('OK\r\n')
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      const buffer = Buffer.alloc(16)
+      const length = fs.readSync(slave, buffer)
+      assert.strictEqual(buffer.subarray(0, length).toString(), 'OK\r\n')
+    } finally {
+      fs.closeSync(slave)
+      await transport.close()
+    }
+  })
+
+  it('maintains a symlink to the slave device while open', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'iridium-pty-'))
+    const link = path.join(directory, 'ttyIridium')
+
+    try {
+      const transport = new PtyTransport({ link })
+      await transport.open()
+
+      assert.strictEqual(fs.readlinkSync(link), transport.path)
+
+      await transport.close()
+      assert.strictEqual(fs.existsSync(link), false)
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,131 @@
+import fs from 'fs'
+import tty from 'tty'
+import { execFile } from 'child_process'
+
+import { IridiumTransport } from './transport'
+
+type PtyPair = {
+  master: number
+  slave: number
+  pty: string
+}
+
+/**
+ * Opens a new pseudo-terminal pair using the native module
+ * bundled with the optional node-pty dependency.
+ *
+ * The public `open()` of node-pty 1.1.0 neither exposes the slave
+ * device path nor sets up the master for writing, so the native
+ * module it exports is used instead. That export is not covered by
+ * semver, which is why the dependency is pinned to an exact version.
+ */
+function openPty (): PtyPair {
+  let native
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    native = require('node-pty').native
+  } catch (error: unknown) {
+    throw Error(`Pseudo-terminal support requires the optional 'node-pty' dependency. ${error instanceof Error ? error.message : ''}`)
+  }
+
+  if (!native) throw Error('Pseudo-terminals are not supported on this platform')
+
+  return native.open(80, 24)
+}
+
+/**
+ * Switches the terminal line discipline to raw mode so that bytes
+ * are passed through without echo or line ending translation.
+ */
+function setRawMode (path: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile('stty', ['-F', path, 'raw', '-echo'], (error) => error ? reject(error) : resolve())
+  })
+}
+
+/**
+ * Transport that creates a Linux pseudo-terminal pair. The DTE
+ * connects to the slave device (eg. /dev/pts/7) or the optional
+ * stable symlink as if it were a serial port.
+ */
+export class PtyTransport extends IridiumTransport {
+  #stream: tty.ReadStream
+
+  get stream () {
+    return this.#stream
+  }
+
+  /** File descriptor of the slave end, held open so the master survives DTE disconnects */
+  #slave: number | null = null
+
+  #path: string | null = null
+
+  /** The path of the slave device the DTE should connect to */
+  get path () {
+    return this.#path
+  }
+
+  #link: string | null
+
+  /** The stable symlink pointing to the slave device */
+  get link () {
+    return this.#link
+  }
+
+  get description () {
+    return `pseudo-terminal ${this.#path ?? ''}${this.#link ? ` (${this.#link})` : ''}`
+  }
+
+  constructor ({
+    link
+  }: {
+    link?: string
+  } = {}) {
+    super()
+
+    this.#link = link ?? null
+
+    // the stream is needed by the emulator before the transport is
+    // opened, so the pseudo-terminal pair is created straight away
+    const pair = openPty()
+    this.#slave = pair.slave
+    this.#path = pair.pty
+    this.#stream = new tty.ReadStream(pair.master)
+    this.#stream.on('error', (error: Error & { code?: string }) => {
+      // EIO is raised on the master when the slave is closed, which
+      // cannot happen while the slave descriptor is held open
+      if (error.code !== 'EIO') this.emit('error', error)
+    })
+  }
+
+  async open (): Promise<void> {
+    if (this.#path === null) throw Error('Pseudo-terminal has been closed')
+
+    await setRawMode(this.#path)
+
+    if (this.#link) {
+      // replace a stale link left behind by a previous run
+      const existing = fs.lstatSync(this.#link, { throwIfNoEntry: false })
+      if (existing?.isSymbolicLink()) fs.unlinkSync(this.#link)
+
+      fs.symlinkSync(this.#path, this.#link)
+    }
+
+    this.emit('open')
+  }
+
+  async close (): Promise<void> {
+    if (this.#link && fs.lstatSync(this.#link, { throwIfNoEntry: false })?.isSymbolicLink()) {
+      fs.unlinkSync(this.#link)
+    }
+
+    this.#stream.destroy()
+    if (this.#slave !== null) fs.closeSync(this.#slave)
+
+    this.#slave = null
+    this.#path = null
+
+    this.emit('close')
+  }
+}
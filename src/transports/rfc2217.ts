@@ -0,0 +1,369 @@
+/* eslint-disable no-unused-vars */
+import { Socket } from 'net'
+
+import { DteLines, ModemLines } from './transport'
+
+export enum Telnet {
+  SE = 240,
+  SB = 250,
+  WILL = 251,
+  WONT = 252,
+  DO = 253,
+  DONT = 254,
+  IAC = 255
+}
+
+export enum TelnetOption {
+  BINARY = 0,
+  SUPPRESS_GO_AHEAD = 3,
+  COM_PORT = 44
+}
+
+/** RFC 2217 client to server sub-negotiation commands (server replies add 100) */
+export enum ComPortCommand {
+  SIGNATURE = 0,
+  SET_BAUDRATE = 1,
+  SET_DATASIZE = 2,
+  SET_PARITY = 3,
+  SET_STOPSIZE = 4,
+  SET_CONTROL = 5,
+  NOTIFY_LINESTATE = 6,
+  NOTIFY_MODEMSTATE = 7,
+  FLOWCONTROL_SUSPEND = 8,
+  FLOWCONTROL_RESUME = 9,
+  SET_LINESTATE_MASK = 10,
+  SET_MODEMSTATE_MASK = 11,
+  PURGE_DATA = 12
+}
+
+const SERVER_OFFSET = 100
+
+enum ParserState {
+  DATA,
+  IAC,
+  OPTION,
+  SUBNEGOTIATION,
+  SUBNEGOTIATION_IAC
+}
+
+export type ComPortSettings = {
+  baudRate: number
+  dataSize: number
+  parity: number
+  stopSize: number
+}
+
+/**
+ * Handles the Telnet framing and RFC 2217 COM port control options
+ * for a single DTE connection. Data bytes are passed on unescaped,
+ * control requests update the emulated serial settings and lines.
+ */
+export class Rfc2217Session {
+  #socket: Socket
+
+  #state = ParserState.DATA
+
+  #command = 0
+
+  #subnegotiation: number[] = []
+
+  #modemStateMask = 0xff
+
+  #lastModemState = 0
+
+  /** The outbound flow control setting, as a SET-CONTROL value */
+  #flowControl = 1
+
+  /** The inbound flow control setting, as a SET-CONTROL value */
+  #inboundFlowControl = 14
+
+  /** The BREAK state, as a SET-CONTROL value */
+  #breakState = 6
+
+  settings: ComPortSettings
+
+  #onData: (data: Buffer) => void
+
+  #onDteLines: (lines: Partial<DteLines>) => void
+
+  #dteLines: () => DteLines
+
+  #onSettings: (settings: ComPortSettings) => void
+
+  constructor ({
+    socket,
+    settings,
+    onData,
+    onDteLines,
+    dteLines,
+    onSettings
+  }: {
+    socket: Socket,
+    settings: ComPortSettings,
+    onData: (data: Buffer) => void,
+    onDteLines: (lines: Partial<DteLines>) => void,
+    dteLines: () => DteLines,
+    onSettings: (settings: ComPortSettings) => void
+  }) {
+    this.#socket = socket
+    this.settings = { ...settings }
+    this.#onData = onData
+    this.#onDteLines = onDteLines
+    this.#dteLines = dteLines
+    this.#onSettings = onSettings
+
+    this.#sendNegotiation(Telnet.WILL, TelnetOption.BINARY)
+    this.#sendNegotiation(Telnet.DO, TelnetOption.BINARY)
+    this.#sendNegotiation(Telnet.WILL, TelnetOption.SUPPRESS_GO_AHEAD)
+    this.#sendNegotiation(Telnet.DO, TelnetOption.SUPPRESS_GO_AHEAD)
+    this.#sendNegotiation(Telnet.DO, TelnetOption.COM_PORT)
+  }
+
+  /** Escapes and writes outbound data to the DTE */
+  write (data: Buffer) {
+    const escaped: number[] = []
+    for (const byte of data) {
+      escaped.push(byte)
+      if (byte === Telnet.IAC) escaped.push(Telnet.IAC)
+    }
+    this.#socket.write(Buffer.from(escaped))
+  }
+
+  /** Parses inbound bytes from the DTE */
+  receive (chunk: Buffer) {
+    const data: number[] = []
+
+    for (const byte of chunk) {
+      switch (this.#state) {
+        case ParserState.DATA:
+          if (byte === Telnet.IAC) this.#state = ParserState.IAC
+          else data.push(byte)
+          break
+
+        case ParserState.IAC:
+          if (byte === Telnet.IAC) {
+            data.push(byte)
+            this.#state = ParserState.DATA
+          } else if (byte >= Telnet.WILL && byte <= Telnet.DONT) {
+            this.#command = byte
+            this.#state = ParserState.OPTION
+          } else if (byte === Telnet.SB) {
+            this.#subnegotiation = []
+            this.#state = ParserState.SUBNEGOTIATION
+          } else {
+            // other telnet commands (NOP, AYT, etc.) are ignored
+            this.#state = ParserState.DATA
+          }
+          break
+
+        case ParserState.OPTION:
+          this.#handleNegotiation(this.#command, byte)
+          this.#state = ParserState.DATA
+          break
+
+        case ParserState.SUBNEGOTIATION:
+          if (byte === Telnet.IAC) this.#state = ParserState.SUBNEGOTIATION_IAC
+          else this.#subnegotiation.push(byte)
+          break
+
+        case ParserState.SUBNEGOTIATION_IAC:
+          if (byte === Telnet.SE) {
+            this.#handleSubnegotiation(this.#subnegotiation)
+            this.#state = ParserState.DATA
+          } else {
+            this.#subnegotiation.push(byte)
+            this.#state = ParserState.SUBNEGOTIATION
+          }
+          break
+      }
+    }
+
+    if (data.length > 0) this.#onData(Buffer.from(data))
+  }
+
+  /** Notifies the DTE of a change in the emulator driven lines */
+  notifyModemState (lines: ModemLines) {
+    const state = (lines.dcd ? 0x80 : 0) |
+      (lines.ri ? 0x40 : 0) |
+      (lines.dsr ? 0x20 : 0) |
+      (lines.cts ? 0x10 : 0)
+
+    const changes = state ^ this.#lastModemState
+    const deltas = ((changes & 0x80) ? 0x08 : 0) |
+      ((changes & 0x40) && !(state & 0x40) ? 0x04 : 0) |
+      ((changes & 0x20) ? 0x02 : 0) |
+      ((changes & 0x10) ? 0x01 : 0)
+
+    this.#lastModemState = state
+
+    const value = (state | deltas) & this.#modemStateMask
+    if (changes === 0 || value === 0) return
+
+    this.#sendComPort(ComPortCommand.NOTIFY_MODEMSTATE, [value])
+  }
+
+  #modemState () {
+    return this.#lastModemState & this.#modemStateMask
+  }
+
+  #handleNegotiation (command: number, option: number) {
+    const supported = option === TelnetOption.BINARY ||
+      option === TelnetOption.SUPPRESS_GO_AHEAD ||
+      option === TelnetOption.COM_PORT
+
+    switch (command) {
+      case Telnet.WILL:
+        // the options we support have already been requested
+        if (!supported) this.#sendNegotiation(Telnet.DONT, option)
+        break
+      case Telnet.DO:
+        if (!supported) this.#sendNegotiation(Telnet.WONT, option)
+        break
+      default:
+        // WONT/DONT requires no response
+        break
+    }
+  }
+
+  #handleSubnegotiation (bytes: number[]) {
+    const [option, command, ...value] = bytes
+    if (option !== TelnetOption.COM_PORT) return
+
+    switch (command) {
+      case ComPortCommand.SIGNATURE:
+        this.#sendComPort(command, [...Buffer.from('Iridium SBD Emulator')])
+        break
+
+      case ComPortCommand.SET_BAUDRATE: {
+        // a short request is treated as a query of the current baud rate
+        const baudRate = value.length >= 4 ? Buffer.from(value).readUInt32BE(0) : 0
+        if (baudRate !== 0) this.#updateSettings({ baudRate })
+
+        const reply = Buffer.alloc(4)
+        reply.writeUInt32BE(this.settings.baudRate)
+        this.#sendComPort(command, [...reply])
+        break
+      }
+
+      case ComPortCommand.SET_DATASIZE:
+        if (value.length >= 1 && value[0] !== 0) this.#updateSettings({ dataSize: value[0] })
+        this.#sendComPort(command, [this.settings.dataSize])
+        break
+
+      case ComPortCommand.SET_PARITY:
+        if (value.length >= 1 && value[0] !== 0) this.#updateSettings({ parity: value[0] })
+        this.#sendComPort(command, [this.settings.parity])
+        break
+
+      case ComPortCommand.SET_STOPSIZE:
+        if (value.length >= 1 && value[0] !== 0) this.#updateSettings({ stopSize: value[0] })
+        this.#sendComPort(command, [this.settings.stopSize])
+        break
+
+      case ComPortCommand.SET_CONTROL:
+        if (value.length >= 1) this.#handleSetControl(value[0])
+        break
+
+      case ComPortCommand.SET_LINESTATE_MASK:
+        if (value.length >= 1) this.#sendComPort(command, [value[0]])
+        break
+
+      case ComPortCommand.SET_MODEMSTATE_MASK:
+        if (value.length >= 1) this.#modemStateMask = value[0]
+        this.#sendComPort(command, [this.#modemStateMask])
+        this.#sendComPort(ComPortCommand.NOTIFY_MODEMSTATE, [this.#modemState()])
+        break
+
+      case ComPortCommand.FLOWCONTROL_SUSPEND:
+      case ComPortCommand.FLOWCONTROL_RESUME:
+        this.#sendComPort(command, [])
+        break
+
+      case ComPortCommand.PURGE_DATA:
+        if (value.length >= 1) this.#sendComPort(command, [value[0]])
+        break
+    }
+  }
+
+  /**
+   * Applies a SET-CONTROL request and replies with the resulting
+   * state. Requests of the current state (0, 4, 7, 10 and 13) are
+   * answered without changing it.
+   */
+  #handleSetControl (value: number) {
+    switch (value) {
+      case 0: // Request outbound flow control setting
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [this.#flowControl])
+        break
+      case 1: // No flow control
+      case 2: // XON/XOFF flow control
+      case 3: // Hardware flow control
+      case 17: // DCD flow control
+      case 18: // DTR flow control
+      case 19: // DSR flow control
+        this.#flowControl = value
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [value])
+        break
+      case 4: // Request BREAK state
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [this.#breakState])
+        break
+      case 5: // BREAK on
+      case 6: // BREAK off
+        this.#breakState = value
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [value])
+        break
+      case 7: // Request DTR state
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [this.#dteLines().dtr ? 8 : 9])
+        break
+      case 8: // DTR on
+      case 9: // DTR off
+        this.#onDteLines({ dtr: value === 8 })
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [value])
+        break
+      case 10: // Request RTS state
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [this.#dteLines().rts ? 11 : 12])
+        break
+      case 11: // RTS on
+      case 12: // RTS off
+        this.#onDteLines({ rts: value === 11 })
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [value])
+        break
+      case 13: // Request inbound flow control setting
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [this.#inboundFlowControl])
+        break
+      case 14: // No inbound flow control
+      case 15: // XON/XOFF inbound flow control
+      case 16: // Hardware inbound flow control
+        this.#inboundFlowControl = value
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [value])
+        break
+      default:
+        // unknown values are acknowledged as is
+        this.#sendComPort(ComPortCommand.SET_CONTROL, [value])
+        break
+    }
+  }
+
+  #updateSettings (settings: Partial<ComPortSettings>) {
+    this.settings = { ...this.settings, ...settings }
+    this.#onSettings(this.settings)
+  }
+
+  #sendNegotiation (command: Telnet, option: TelnetOption | number) {
+    this.#socket.write(Buffer.from([Telnet.IAC, command, option]))
+  }
+
+  #sendComPort (command: ComPortCommand, value: number[]) {
+    const escaped: number[] = []
+    for (const byte of value) {
+      escaped.push(byte)
+      if (byte === Telnet.IAC) escaped.push(Telnet.IAC)
+    }
+
+    this.#socket.write(Buffer.from([
+      Telnet.IAC, Telnet.SB, TelnetOption.COM_PORT, command + SERVER_OFFSET,
+      ...escaped,
+      Telnet.IAC, Telnet.SE
+    ]))
+  }
+}
@@ -0,0 +1,110 @@
+import { SerialPort } from 'serialport'
+
+import { IridiumTransport, ModemLines } from './transport'
+
+/**
+ * Transport over a physical or virtual (eg. com0com) serial port. The
+ * emulator sits on the far side of a null modem, so its DSR and CTS
+ * outputs are presented to the DTE using the DTR and RTS pins, and the
+ * DTE's DTR and RTS are read from the DSR and CTS pins. A port has no
+ * outputs left for RI and DCD, so those are only recorded.
+ */
+export class SerialTransport extends IridiumTransport {
+  #port: SerialPort
+
+  get port () {
+    return this.#port
+  }
+
+  get stream () {
+    return this.#port
+  }
+
+  get description () {
+    return `serial port ${this.#port.path}`
+  }
+
+  /** Interval in ms at which the DTE driven lines are read */
+  #pollInterval: number
+
+  #poll: ReturnType<typeof setInterval> | null = null
+
+  constructor ({
+    path,
+    baudRate = 19200,
+    pollInterval = 100
+  }: {
+    path: string,
+    baudRate?: number,
+    /** Interval in ms at which the DTE driven lines are read */
+    pollInterval?: number
+  }) {
+    super()
+
+    this.#pollInterval = pollInterval
+
+    this.#port = new SerialPort({ path, baudRate, autoOpen: false })
+    this.#port.on('open', () => {
+      this.#poll = setInterval(this.#readDteLines, this.#pollInterval)
+      this.emit('open')
+    })
+    this.#port.on('close', () => {
+      this.#stopPolling()
+      this.emit('close')
+    })
+    this.#port.on('error', (error) => this.emit('error', error))
+  }
+
+  open (): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.#port.open((error) => error ? reject(error) : resolve())
+    })
+  }
+
+  close (): Promise<void> {
+    if (!this.#port.isOpen) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      this.#port.close((error) => error ? reject(error) : resolve())
+    })
+  }
+
+  #stopPolling () {
+    if (this.#poll) clearInterval(this.#poll)
+    this.#poll = null
+  }
+
+  /**
+   * Reads the DTE's DTR and RTS, wired to the DSR and CTS inputs of
+   * the port by the null modem, as the serial port has no change events.
+   * Ports that cannot report their inputs (eg. pseudo-terminals) are
+   * reported once and the DTE lines are left raised.
+   */
+  #readDteLines = () => {
+    if (!this.#port.isOpen) return
+
+    this.#port.get((error, status) => {
+      if (this.#poll === null) return
+
+      if (error) {
+        this.#stopPolling()
+        return this.emit('error', Error(`Unable to read the DTE control lines. ${error.message}`))
+      }
+
+      if (status) this.updateDteLines({ dtr: status.dsr, rts: status.cts })
+    })
+  }
+
+  async setModemLines (lines: Partial<ModemLines>): Promise<void> {
+    await super.setModemLines(lines)
+
+    if (!this.#port.isOpen) return
+
+    await new Promise<void>((resolve, reject) => {
+      this.#port.set({
+        dtr: this.modemLines.dsr,
+        rts: this.modemLines.cts
+      }, (error) => error ? reject(error) : resolve())
+    })
+  }
+}
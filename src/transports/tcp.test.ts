@@ -0,0 +1,120 @@
+import assert from 'assert'
+import { connect, Socket } from 'net'
+import { afterEach, describe, it } from 'node:test'
+import { Readable } from 'stream'
+
+import { ComPortCommand, Telnet, TelnetOption } from './rfc2217'
+import { TcpTransport } from './tcp'
+import { DteLines } from './transport'
+
+/** Connects to the transport, resolving once connected */
+function connectTo (transport: TcpTransport): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host: '127.0.0.1', port: transport.port }, () => resolve(socket))
+    socket.on('error', reject)
+  })
+}
+
+/** Resolves with the next chunk readable from a stream */
+function nextChunk (stream: Readable): Promise<Buffer> {
+  return new Promise((resolve) => stream.once('data', resolve))
+}
+
+/** Resolves with the next change of the DTE driven lines */
+function nextDteLines (transport: TcpTransport): Promise<DteLines> {
+  return new Promise((resolve) => transport.once('dte-lines', resolve))
+}
+
+/** Encodes an RFC 2217 COM port sub-negotiation sent by a client */
+function comPort (command: ComPortCommand, value: number[]) {
+  return Buffer.from([Telnet.IAC, Telnet.SB, TelnetOption.COM_PORT, command, ...value, Telnet.IAC, Telnet.SE])
+}
+
+describe('TcpTransport', () => {
+  let transport: TcpTransport
+  let socket: Socket | null
+
+  afterEach(async () => {
+    socket?.destroy()
+    await transport.close()
+  })
+
+  describe('raw mode', () => {
+    it('passes bytes between the emulator and the DTE', async () => {
+      transport = new TcpTransport({ port: 0, host: '127.0.0.1' })
+      await transport.open()
+
+      socket = await connectTo(transport)
+
+      let chunk = nextChunk(transport.stream)
+      socket.write('AT\r')
+      assert.strictEqual((await chunk).toString(), 'AT\r')
+
+      chunk = nextChunk(socket)
+      transport.stream.write('OK\r\n')
+      assert.strictEqual((await chunk).toString(), 'OK\r\n')
+    })
+
+    it('refuses a second DTE', async () => {
+      transport = new TcpTransport({ port: 0, host: '127.0.0.1' })
+      await transport.open()
+      socket = await connectTo(transport)
+
+      const second = await connectTo(transport)
+      assert.strictEqual((await nextChunk(second)).toString(), 'Port already in use\r\n')
+      second.destroy()
+    })
+
+    it('drops DTR and RTS when the DTE disconnects', async () => {
+      transport = new TcpTransport({ port: 0, host: '127.0.0.1' })
+      await transport.open()
+      socket = await connectTo(transport)
+
+      const disconnected = nextDteLines(transport)
+      socket.destroy()
+      assert.deepStrictEqual(await disconnected, { dtr: false, rts: false })
+    })
+  })
+
+  describe('rfc2217 mode', () => {
+    it('applies the baud rate requested by the client', async () => {
+      transport = new TcpTransport({ port: 0, host: '127.0.0.1', mode: 'rfc2217' })
+      await transport.open()
+      socket = await connectTo(transport)
+
+      const reply = Buffer.from([Telnet.IAC, Telnet.SB, TelnetOption.COM_PORT, ComPortCommand.SET_BAUDRATE + 100, 0, 0, 0x96, 0, Telnet.IAC, Telnet.SE])
+      const received: Buffer[] = []
+      const replied = new Promise<void>((resolve) => {
+        socket?.on('data', (chunk) => {
+          received.push(chunk)
+          if (Buffer.concat(received).includes(reply)) resolve()
+        })
+      })
+
+      socket.write(comPort(ComPortCommand.SET_BAUDRATE, [0, 0, 0x96, 0]))
+      await replied
+
+      assert.strictEqual(transport.baudRate, 38400)
+    })
+
+    it('reports DTR changed by SET-CONTROL', async () => {
+      transport = new TcpTransport({ port: 0, host: '127.0.0.1', mode: 'rfc2217' })
+      await transport.open()
+      socket = await connectTo(transport)
+
+      const changed = nextDteLines(transport)
+      socket.write(comPort(ComPortCommand.SET_CONTROL, [9]))
+      assert.deepStrictEqual(await changed, { dtr: false, rts: true })
+    })
+
+    it('unescapes IAC in data from the DTE', async () => {
+      transport = new TcpTransport({ port: 0, host: '127.0.0.1', mode: 'rfc2217' })
+      await transport.open()
+      socket = await connectTo(transport)
+
+      const chunk = nextChunk(transport.stream)
+      socket.write(Buffer.from([0x01, Telnet.IAC, Telnet.IAC, 0x02]))
+      assert.deepStrictEqual(await chunk, Buffer.from([0x01, 0xff, 0x02]))
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { createServer, Server, Socket } from 'net'
+import { Duplex } from 'stream'
+
+import { ComPortSettings, Rfc2217Session } from './rfc2217'
+import { IridiumTransport, ModemLines } from './transport'
+
+/**
+ * Stream presented to the emulator that outlives the individual
+ * DTE connections. Output is forwarded to the active connection
+ * and dropped while no DTE is connected.
+ */
+class ConnectionStream extends Duplex {
+  output: ((data: Buffer) => void) | null = null
+
+  _write (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+    this.output?.(chunk)
+    callback()
+  }
+
+  _read () {
+    // data is pushed as it arrives from the active connection
+  }
+}
+
+export type TcpTransportMode = 'raw' | 'rfc2217'
+
+/**
+ * Transport that listens on a TCP port and accepts a single DTE
+ * connection at a time, either as raw bytes or using the Telnet
+ * COM port control protocol (RFC 2217).
+ */
+export class TcpTransport extends IridiumTransport {
+  #server: Server
+
+  #stream: ConnectionStream
+
+  get stream () {
+    return this.#stream
+  }
+
+  #port: number
+
+  /** The TCP port the transport is listening on */
+  get port () {
+    const address = this.#server.address()
+    return address && typeof address === 'object' ? address.port : this.#port
+  }
+
+  #host: string
+
+  get host () {
+    return this.#host
+  }
+
+  #mode: TcpTransportMode
+
+  get mode () {
+    return this.#mode
+  }
+
+  get description () {
+    return `${this.#mode} tcp server ${this.#host}:${this.port}`
+  }
+
+  /** The serial settings most recently requested by an RFC 2217 client */
+  #settings: ComPortSettings
+
+  get baudRate () {
+    return this.#settings.baudRate
+  }
+
+  get settings () {
+    return { ...this.#settings }
+  }
+
+  /** The currently connected DTE */
+  #socket: Socket | null = null
+
+  get connected () {
+    return this.#socket !== null
+  }
+
+  #session: Rfc2217Session | null = null
+
+  constructor ({
+    port,
+    host = '0.0.0.0',
+    mode = 'raw',
+    baudRate = 19200
+  }: {
+    port: number,
+    host?: string,
+    mode?: TcpTransportMode,
+    baudRate?: number
+  }) {
+    super()
+
+    this.#port = port
+    this.#host = host
+    this.#mode = mode
+    this.#settings = { baudRate, dataSize: 8, parity: 1, stopSize: 1 }
+    this.#stream = new ConnectionStream()
+    this.#server = createServer((socket) => this.#handleConnection(socket))
+    this.#server.on('error', (error) => this.emit('error', error))
+  }
+
+  open (): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.#server.once('error', reject)
+      this.#server.listen(this.#port, this.#host, () => {
+        this.#server.off('error', reject)
+        this.emit('open')
+        resolve()
+      })
+    })
+  }
+
+  close (): Promise<void> {
+    this.#socket?.destroy()
+
+    if (!this.#server.listening) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      this.#server.close((error) => {
+        if (error) return reject(error)
+        this.emit('close')
+        resolve()
+      })
+    })
+  }
+
+  async setModemLines (lines: Partial<ModemLines>): Promise<void> {
+    await super.setModemLines(lines)
+    this.#session?.notifyModemState(this.modemLines)
+  }
+
+  #handleConnection (socket: Socket) {
+    if (this.#socket !== null) {
+      // only a single DTE can be attached to the emulator
+      socket.end('Port already in use\r\n')
+      return
+    }
+
+    this.#socket = socket
+
+    if (this.#mode === 'rfc2217') {
+      const session = new Rfc2217Session({
+        socket,
+        settings: this.#settings,
+        onData: (data) => this.#stream.push(data),
+        onDteLines: (lines) => this.updateDteLines(lines),
+        dteLines: () => this.getDteLines(),
+        onSettings: (settings) => { this.#settings = settings }
+      })
+
+      this.#session = session
+      this.#stream.output = (data) => session.write(data)
+      socket.on('data', (chunk) => session.receive(chunk))
+      session.notifyModemState(this.modemLines)
+    } else {
+      this.#stream.output = (data) => socket.write(data)
+      socket.on('data', (chunk) => this.#stream.push(chunk))
+    }
+
+    this.updateDteLines({ dtr: true, rts: true })
+
+    socket.on('error', (error) => this.emit('error', error))
+    socket.on('close', () => {
+      this.#socket = null
+      this.#session = null
+      this.#stream.output = null
+      this.updateDteLines({ dtr: false, rts: false })
+    })
+  }
+}
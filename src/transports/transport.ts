@@ -0,0 +1,81 @@
+/* eslint-disable no-unused-vars */
+import { Duplex } from 'stream'
+import { TypedEmitter } from 'tiny-typed-emitter'
+
+/** Output control lines driven by the emulator (DCE) */
+export type ModemLines = {
+  /** Clear To Send */
+  cts: boolean
+  /** Data Set Ready */
+  dsr: boolean
+  /** Data Carrier Detect */
+  dcd: boolean
+  /** Ring Indicator */
+  ri: boolean
+}
+
+/** Input control lines driven by the connected application (DTE) */
+export type DteLines = {
+  /** Data Terminal Ready */
+  dtr: boolean
+  /** Request To Send */
+  rts: boolean
+}
+
+export interface IridiumTransportInterface {
+  'open': () => void
+  'close': () => void
+  'error': (error: Error) => void
+  'dte-lines': (lines: DteLines) => void
+}
+
+/**
+ * Connection between the emulator and the DTE. The emulator reads
+ * commands from and writes responses to the duplex stream, and
+ * drives/reads the control lines where the transport supports them.
+ */
+export abstract class IridiumTransport extends TypedEmitter<IridiumTransportInterface> {
+  /** The byte stream to and from the DTE */
+  abstract get stream (): Duplex
+
+  /** Human readable description of the transport used in logs */
+  abstract get description (): string
+
+  /** The current state of the emulator driven control lines */
+  protected modemLines: ModemLines = { cts: true, dsr: true, dcd: false, ri: false }
+
+  /** The last known state of the DTE driven control lines */
+  protected dteLines: DteLines = { dtr: true, rts: true }
+
+  abstract open (): Promise<void>
+
+  abstract close (): Promise<void>
+
+  /**
+   * Updates one or more of the emulator driven control lines. Transports
+   * that have no physical lines simply record the state.
+   */
+  async setModemLines (lines: Partial<ModemLines>): Promise<void> {
+    this.modemLines = { ...this.modemLines, ...lines }
+  }
+
+  getModemLines (): ModemLines {
+    return { ...this.modemLines }
+  }
+
+  getDteLines (): DteLines {
+    return { ...this.dteLines }
+  }
+
+  /**
+   * Records a change in the DTE driven control lines and notifies
+   * listeners when any of the lines changed state.
+   */
+  protected updateDteLines (lines: Partial<DteLines>): void {
+    const update = { ...this.dteLines, ...lines }
+    if (update.dtr === this.dteLines.dtr && update.rts === this.dteLines.rts) return
+
+    this.dteLines = update
+    this.emit('dte-lines', this.getDteLines())
+  }
+}
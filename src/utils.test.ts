@@ -0,0 +1,47 @@
+import assert from 'assert'
+import { describe, it } from 'node:test'
+
+import { VirtualClock } from './clock'
+import { createRandom, delay, randomInterval } from './utils'
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(42)
+    const b = createRandom(42)
+
+    const sequence = [a(), a(), a()]
+    assert.deepStrictEqual([b(), b(), b()], sequence)
+    assert.notDeepStrictEqual([createRandom(43)(), createRandom(43)()], sequence.slice(0, 2))
+  })
+
+  it('returns values in the range [0, 1)', () => {
+    const random = createRandom(7)
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random()
+      assert.ok(value >= 0 && value < 1)
+    }
+  })
+})
+
+describe('randomInterval', () => {
+  it('returns an integer between min and max inclusive', () => {
+    assert.strictEqual(randomInterval(5, 10, () => 0), 5)
+    assert.strictEqual(randomInterval(5, 10, () => 0.9999), 10)
+  })
+})
+
+describe('delay', () => {
+  it('resolves when the clock reaches the delay', async () => {
+    const clock = new VirtualClock()
+    let resolved = false
+
+    delay(1000, clock).then(() => { resolved = true })
+
+    await clock.advance(999)
+    assert.strictEqual(resolved, false)
+
+    await clock.advance(1)
+    assert.strictEqual(resolved, true)
+  })
+})
@@ -1,5 +1,7 @@
 import usx from 'unishox2.siara.cc'
 
+import { Clock, systemClock } from './clock'
+
 /**
  * Compress a string using the Unishox 2 compression algorithm.
  *
@@ -55,20 +57,39 @@ export function calculateChecksum (buffer: Buffer) {
  * @returns {Buffer}
  */
 export function trimBuffer (buffer: Buffer) {
-  let index = 0
+  let index = -1
   for (let i = buffer.length - 1; i >= 0; i--) {
     if (buffer[i] === 0x00) continue
     index = i
     break
   }
 
-  return index === 0 ? Buffer.alloc(0) : buffer.subarray(0, index + 1)
+  return index === -1 ? Buffer.alloc(0) : buffer.subarray(0, index + 1)
+}
+
+export function delay (ms: number, clock: Clock = systemClock) {
+  return new Promise(resolve => clock.setTimeout(() => resolve(undefined), ms))
 }
 
-export function delay (ms: number) {
-  return new Promise(resolve => setTimeout(resolve, ms))
+export function randomInterval (min: number, max: number, random: () => number = Math.random) {
+  return Math.floor(random() * (max - min + 1) + min)
 }
 
-export function randomInterval (min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1) + min)
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ * returning values in the range [0, 1).
+ *
+ * @param seed
+ * @returns {() => number} the generator
+ */
+export function createRandom (seed: number) {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
 }